@@ -255,6 +255,121 @@ describe('Audio Engine', () => {
     });
   });
 
+  describe('envelope from event ADSR and gain', () => {
+    /**
+     * Schedule a single note at offset 0 and return the gain param mocks.
+     * Base start time is currentTime (0) + 0.1s scheduling buffer.
+     */
+    function scheduleSingle(overrides: Partial<SynthEvent>) {
+      const event: SynthEvent = {
+        t: 0,
+        dur: 0.5,
+        kind: 'note',
+        midi: 60,
+        freq: 261.63,
+        vel: 0.8,
+        inst: 'synth',
+        waveform: 'sine',
+        ...overrides,
+      };
+      engine.scheduleEvents([event]);
+      const ctx = engine.getAudioContext() as unknown as MockAudioContext;
+      const gainNode = ctx.createGain.mock.results[0].value as MockGainNode;
+      const oscillator = ctx.createOscillator.mock.results[0].value as MockOscillatorNode;
+      return {
+        ramps: gainNode.gain.linearRampToValueAtTime.mock.calls as [number, number][],
+        sets: gainNode.gain.setValueAtTime.mock.calls as [number, number][],
+        oscillator,
+      };
+    }
+
+    it('should use default envelope when event has no ADSR', () => {
+      const { ramps, sets } = scheduleSingle({});
+
+      expect(ramps[0][0]).toBeCloseTo(0.8, 5);          // peak = vel
+      expect(ramps[0][1]).toBeCloseTo(0.105, 5);        // attack 0.005
+      expect(ramps[1][0]).toBeCloseTo(0.56, 5);         // sustain 0.7 * 0.8
+      expect(ramps[1][1]).toBeCloseTo(0.155, 5);        // decay 0.05
+      expect(sets[1][0]).toBeCloseTo(0.56, 5);
+      expect(sets[1][1]).toBeCloseTo(0.6, 5);           // note end
+      expect(ramps[2][0]).toBe(0);
+      expect(ramps[2][1]).toBeCloseTo(0.68, 5);         // release 0.08
+    });
+
+    it('should build ramps from event ADSR', () => {
+      const { ramps, sets, oscillator } = scheduleSingle({
+        dur: 1.0,
+        adsr: { attack: 0.2, decay: 0.1, sustain: 0.5, release: 0.6 },
+      });
+
+      expect(ramps[0]).toEqual([0.8, expect.closeTo(0.3, 5)]);
+      expect(ramps[1][0]).toBeCloseTo(0.4, 5);
+      expect(ramps[1][1]).toBeCloseTo(0.4, 5);
+      expect(sets[1][0]).toBeCloseTo(0.4, 5);
+      expect(sets[1][1]).toBeCloseTo(1.1, 5);
+      expect(ramps[2][0]).toBe(0);
+      expect(ramps[2][1]).toBeCloseTo(1.7, 5);
+      expect(oscillator.stop).toHaveBeenCalledWith(expect.closeTo(1.7, 5));
+    });
+
+    it('should scale peak and sustain by instrument gain', () => {
+      const { ramps } = scheduleSingle({ vel: 1.0, gain: 0.5 });
+
+      expect(ramps[0][0]).toBeCloseTo(0.5, 5);
+      expect(ramps[1][0]).toBeCloseTo(0.35, 5);
+    });
+
+    it('should release from partial attack level when note ends during attack', () => {
+      const { ramps } = scheduleSingle({
+        dur: 0.1,
+        vel: 1.0,
+        adsr: { attack: 0.4, decay: 0.1, sustain: 0.5, release: 0.2 },
+      });
+
+      // Only a quarter of the attack completes before the note ends
+      expect(ramps).toHaveLength(2);
+      expect(ramps[0][0]).toBeCloseTo(0.25, 5);
+      expect(ramps[0][1]).toBeCloseTo(0.2, 5);
+      expect(ramps[1]).toEqual([0, expect.closeTo(0.4, 5)]);
+    });
+
+    it('should release from partial decay level when note ends during decay', () => {
+      const { ramps, sets } = scheduleSingle({
+        dur: 0.15,
+        vel: 1.0,
+        adsr: { attack: 0.1, decay: 0.1, sustain: 0.5, release: 0.2 },
+      });
+
+      // Half of the decay from 1.0 toward 0.5 completes
+      expect(ramps).toHaveLength(3);
+      expect(ramps[0]).toEqual([1.0, expect.closeTo(0.2, 5)]);
+      expect(ramps[1][0]).toBeCloseTo(0.75, 5);
+      expect(ramps[1][1]).toBeCloseTo(0.25, 5);
+      expect(ramps[2]).toEqual([0, expect.closeTo(0.45, 5)]);
+      // No jump back up to the sustain level
+      expect(sets).toHaveLength(1);
+    });
+
+    it('should end the sustain at the gate when the event has one', () => {
+      const { sets, ramps, oscillator } = scheduleSingle({ dur: 0.5, gate: 0.25 });
+
+      expect(sets[1][1]).toBeCloseTo(0.35, 5);          // 0.1 + gate 0.25
+      expect(ramps[2][1]).toBeCloseTo(0.43, 5);         // release 0.08
+      expect(oscillator.stop).toHaveBeenCalledWith(expect.closeTo(0.43, 5));
+    });
+
+    it('should handle zero attack without dividing by zero', () => {
+      const { ramps } = scheduleSingle({
+        dur: 0.5,
+        vel: 1.0,
+        adsr: { attack: 0, decay: 0, sustain: 1, release: 0.1 },
+      });
+
+      expect(ramps.every(([value]) => Number.isFinite(value))).toBe(true);
+      expect(ramps[0][0]).toBeCloseTo(1.0, 5);
+    });
+  });
+
   describe('stopPlayback', () => {
     it('should stop all active oscillators', () => {
       const events: SynthEvent[] = [
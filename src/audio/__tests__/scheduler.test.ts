@@ -9,6 +9,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import {
   calculateLoopDuration,
+  getBarBeatPosition,
   initScheduler,
   isLoopEnabled,
   setLoopEnabled,
@@ -24,9 +25,11 @@ import {
   clearMuteSoloState,
   getTrackNames,
   getTransportState,
+  getCycleEventTimes,
   _testExports,
 } from '../scheduler';
 import type { SynthEvent } from '../../dsl/compiler';
+import { createTempoMap } from '../../dsl/tempo';
 
 // ============================================================================
 // Test Helpers
@@ -84,6 +87,61 @@ describe('calculateLoopDuration', () => {
     const duration = calculateLoopDuration(3, 90);
     expect(duration).toBe(8);
   });
+
+  it('should use 3 beats per bar in 3/4', () => {
+    // 4 bars of 3/4 = 12 quarter notes at 120 BPM = 6 seconds
+    const duration = calculateLoopDuration(4, 120, { numerator: 3, denominator: 4 });
+    expect(duration).toBeCloseTo(6, 5);
+  });
+
+  it('should follow a tempo map', () => {
+    // Bar 1 at 120 BPM (2s), bar 2 at 60 BPM (4s)
+    const tempoMap = createTempoMap(120, [{ position: 1, bpm: 60 }]);
+    const duration = calculateLoopDuration(2, 120, { numerator: 4, denominator: 4 }, tempoMap);
+    expect(duration).toBeCloseTo(6, 5);
+  });
+
+  it('should count eighth-note beats in 7/8', () => {
+    // 1 bar of 7/8 = 3.5 quarter notes at 120 BPM = 1.75 seconds
+    const duration = calculateLoopDuration(1, 120, { numerator: 7, denominator: 8 });
+    expect(duration).toBeCloseTo(1.75, 5);
+  });
+});
+
+// ============================================================================
+// Bar/Beat Position Tests
+// ============================================================================
+
+describe('getBarBeatPosition', () => {
+  it('should start at bar 1 beat 1', () => {
+    expect(getBarBeatPosition(0, 120)).toEqual({ bar: 1, beat: 1 });
+  });
+
+  it('should count quarter-note beats in 4/4', () => {
+    // 120 BPM: one beat = 0.5s
+    expect(getBarBeatPosition(0.5, 120)).toEqual({ bar: 1, beat: 2 });
+    expect(getBarBeatPosition(2.0, 120)).toEqual({ bar: 2, beat: 1 });
+  });
+
+  it('should wrap bars after 3 beats in 3/4', () => {
+    const waltz = { numerator: 3, denominator: 4 };
+    expect(getBarBeatPosition(1.0, 120, waltz)).toEqual({ bar: 1, beat: 3 });
+    expect(getBarBeatPosition(1.5, 120, waltz)).toEqual({ bar: 2, beat: 1 });
+  });
+
+  it('should count eighth-note beats in 7/8', () => {
+    // 120 BPM: one eighth = 0.25s, one bar = 1.75s
+    const sevenEight = { numerator: 7, denominator: 8 };
+    expect(getBarBeatPosition(1.5, 120, sevenEight)).toEqual({ bar: 1, beat: 7 });
+    expect(getBarBeatPosition(1.75, 120, sevenEight)).toEqual({ bar: 2, beat: 1 });
+  });
+
+  it('should follow a tempo map', () => {
+    // Bar 1 at 120 BPM (2s), then 60 BPM: beat 2 of bar 2 starts at 3s
+    const tempoMap = createTempoMap(120, [{ position: 1, bpm: 60 }]);
+    const fourFour = { numerator: 4, denominator: 4 };
+    expect(getBarBeatPosition(3.0, 120, fourFour, tempoMap)).toEqual({ bar: 2, beat: 2 });
+  });
 });
 
 // ============================================================================
@@ -413,6 +471,75 @@ describe('getTransportState', () => {
   });
 });
 
+// ============================================================================
+// Track Cycle Tests
+// ============================================================================
+
+describe('cycleTimesInWindow', () => {
+  const { cycleTimesInWindow } = _testExports;
+  // A 3/4 cycle at 120 BPM (1.5s) inside a one bar loop of 4/4 (2s)
+  const hat = createMockEvent({ t: 0.5, loop: 1.5 });
+
+  it('should repeat the event every cycle and cut the cycle off at the loop end', () => {
+    expect(cycleTimesInWindow(createMockEvent({ loop: 1.5 }), 2, 0, 2, true)).toEqual([0, 1.5]);
+    expect(cycleTimesInWindow(hat, 6, 0, 6, true)).toEqual([0.5, 2, 3.5, 5]);
+  });
+
+  it('should restart the cycle at every loop pass', () => {
+    expect(cycleTimesInWindow(hat, 2, 0, 6, true)).toEqual([0.5, 2.5, 4.5]);
+    expect(cycleTimesInWindow(createMockEvent({ t: 0.25, loop: 1.5 }), 2, 0, 4, true)).toEqual([0.25, 1.75, 2.25, 3.75]);
+  });
+
+  it('should look ahead across cycle and loop boundaries', () => {
+    const downbeat = createMockEvent({ loop: 1.5 });
+    expect(cycleTimesInWindow(downbeat, 6, 1.4, 1.6, true)).toEqual([1.5]);
+    expect(cycleTimesInWindow(downbeat, 2, 1.9, 2.1, true)).toEqual([2]);
+  });
+
+  it('should not return a time twice across consecutive windows', () => {
+    const times = [0, 0.2, 0.4, 0.6, 0.8, 1.0, 1.2, 1.4, 1.6, 1.8]
+      .flatMap(from => cycleTimesInWindow(createMockEvent({ loop: 0.5 }), 2, from, from + 0.2, true));
+    expect(times).toEqual([0, 0.5, 1, 1.5]);
+  });
+
+  it('should only play the first pass without looping', () => {
+    expect(cycleTimesInWindow(hat, 2, 0, 6, false)).toEqual([0.5]);
+    expect(cycleTimesInWindow(hat, 2, 2, 4, false)).toEqual([]);
+  });
+});
+
+describe('cutAtPassEnd', () => {
+  const { cutAtPassEnd } = _testExports;
+
+  it('should cut a cycle note off where the loop pass ends', () => {
+    // A 0.75s cycle in a 2s loop: its third play starts at 1.5s and would last until 2.5s
+    const note = createMockEvent({ t: 0, dur: 1, gate: 0.9, loop: 0.75 });
+    expect(cutAtPassEnd(note, 1.5, 2)).toMatchObject({ dur: 0.5, gate: 0.5 });
+    expect(cutAtPassEnd(note, 3.5, 2)).toMatchObject({ dur: 0.5, gate: 0.5 });
+    expect(note.dur).toBe(1);
+  });
+
+  it('should leave notes that end inside the pass unchanged', () => {
+    const note = createMockEvent({ t: 0, dur: 0.5, loop: 0.75 });
+    expect(cutAtPassEnd(note, 0.75, 2)).toBe(note);
+  });
+});
+
+describe('getCycleEventTimes', () => {
+  // A 3/4 cycle at 120 BPM (1.5s) in a one bar loop (2s): the loop is not a multiple of the cycle
+  const hat = createMockEvent({ t: 0.5, loop: 1.5 });
+
+  it('should follow the cycle restart at each loop pass', () => {
+    initScheduler({ events: [hat], bpm: 120, loopBars: 1, loopEnabled: true });
+    expect(getCycleEventTimes(hat, 0, 4)).toEqual([0.5, 2.5]);
+  });
+
+  it('should only cover the first pass without looping', () => {
+    initScheduler({ events: [hat], bpm: 120, loopBars: 1, loopEnabled: false });
+    expect(getCycleEventTimes(hat, 0, 4)).toEqual([0.5]);
+  });
+});
+
 // ============================================================================
 // Configuration Constants Tests
 // ============================================================================
@@ -3,7 +3,7 @@
  * Manages Web Audio API context, scheduling, and playback control.
  */
 
-import type { SynthEvent } from '../dsl/compiler';
+import type { SynthEvent, SynthEventADSR } from '../dsl/compiler';
 
 // ============================================================================
 // Audio Context Management (5.1.x)
@@ -91,8 +91,9 @@ let currentPlaybackToken = 0;
 // ============================================================================
 
 /**
- * ADSR envelope timing constants (in seconds).
+ * Default ADSR envelope timing constants (in seconds).
  * These create a quick attack with natural decay for musical sounds.
+ * Used when an event carries no instrument-specific envelope.
  */
 const ENVELOPE = {
   /** Attack time: ramp from 0 to peak */
@@ -105,6 +106,20 @@ const ENVELOPE = {
   RELEASE: 0.08,
 };
 
+/**
+ * Resolve the envelope for an event, falling back to the default envelope.
+ * @param event - SynthEvent that may carry instrument ADSR settings
+ * @returns Complete ADSR settings
+ */
+function getEnvelope(event: SynthEvent): SynthEventADSR {
+  return event.adsr ?? {
+    attack: ENVELOPE.ATTACK,
+    decay: ENVELOPE.DECAY,
+    sustain: ENVELOPE.SUSTAIN_LEVEL,
+    release: ENVELOPE.RELEASE,
+  };
+}
+
 // ============================================================================
 // Audio Scheduling Engine (5.2.x)
 // ============================================================================
@@ -127,12 +142,15 @@ function getOscillatorType(waveform: string): OscillatorType {
  * 
  * Audio graph: OscillatorNode → GainNode → destination
  * 
- * ADSR Envelope applied to GainNode:
- * - Attack: Quick ramp to peak (prevents clicks)
+ * ADSR Envelope applied to GainNode (from event.adsr, or the defaults):
+ * - Attack: Ramp to peak (velocity scaled by instrument gain)
  * - Decay: Ramp down to sustain level
  * - Sustain: Hold level for note duration
  * - Release: Ramp to 0 after note ends
  * 
+ * Notes shorter than attack + decay release from the level reached when
+ * they end, so the envelope never jumps back up to sustain.
+ * 
  * @param ctx - AudioContext
  * @param event - SynthEvent to schedule
  * @param startTime - Absolute start time in AudioContext time
@@ -168,33 +186,47 @@ export function scheduleNote(
   const outputNode = analyserNode || ctx.destination;
   gainNode.connect(outputNode);
 
-  // Calculate envelope timing
+  // Calculate envelope timing from the event's ADSR settings
+  const envelope = getEnvelope(event);
   const noteStart = startTime;
-  const attackEnd = noteStart + ENVELOPE.ATTACK;
-  const decayEnd = attackEnd + ENVELOPE.DECAY;
-  const sustainEnd = noteStart + event.dur; // End of note duration
-  const releaseEnd = sustainEnd + ENVELOPE.RELEASE;
+  const attackEnd = noteStart + envelope.attack;
+  const decayEnd = attackEnd + envelope.decay;
+  const soundingDuration = event.gate ?? event.dur;
+  const sustainEnd = noteStart + soundingDuration; // End of the sounding part of the note
+  const releaseEnd = sustainEnd + envelope.release;
 
-  // Peak gain adjusted by velocity
-  const peakGain = event.vel;
-  const sustainGain = peakGain * ENVELOPE.SUSTAIN_LEVEL;
+  // Peak gain adjusted by velocity and instrument gain
+  const peakGain = event.vel * (event.gain ?? 1);
+  const sustainGain = peakGain * envelope.sustain;
 
   // Apply ADSR envelope to gain
   // Start at 0 (silent)
   gainNode.gain.setValueAtTime(0, noteStart);
-  
-  // Attack: ramp to peak
-  gainNode.gain.linearRampToValueAtTime(peakGain, attackEnd);
-  
-  // Decay: ramp to sustain level
-  gainNode.gain.linearRampToValueAtTime(sustainGain, decayEnd);
-  
-  // Sustain: hold level (implicit - value stays until next change)
-  // If note is shorter than attack+decay, the sustain phase is skipped
-  
-  // Release: ramp to 0
-  // Schedule release from wherever we are at sustainEnd
-  gainNode.gain.setValueAtTime(sustainGain, sustainEnd);
+
+  if (sustainEnd <= attackEnd) {
+    // Note ends during attack: ramp only part of the way to peak
+    const cutoffGain = envelope.attack > 0
+      ? peakGain * (soundingDuration / envelope.attack)
+      : peakGain;
+    gainNode.gain.linearRampToValueAtTime(cutoffGain, sustainEnd);
+  } else if (sustainEnd < decayEnd) {
+    // Note ends during decay: full attack, then partial decay toward sustain
+    const decayProgress = (sustainEnd - attackEnd) / envelope.decay;
+    const cutoffGain = peakGain + (sustainGain - peakGain) * decayProgress;
+    gainNode.gain.linearRampToValueAtTime(peakGain, attackEnd);
+    gainNode.gain.linearRampToValueAtTime(cutoffGain, sustainEnd);
+  } else {
+    // Attack: ramp to peak
+    gainNode.gain.linearRampToValueAtTime(peakGain, attackEnd);
+
+    // Decay: ramp to sustain level
+    gainNode.gain.linearRampToValueAtTime(sustainGain, decayEnd);
+
+    // Sustain: hold level until the note ends
+    gainNode.gain.setValueAtTime(sustainGain, sustainEnd);
+  }
+
+  // Release: ramp to 0 from wherever we are at sustainEnd
   gainNode.gain.linearRampToValueAtTime(0, releaseEnd);
 
   // Schedule oscillator start and stop
@@ -6,10 +6,14 @@
  * - Uses a timer-based lookahead approach for precise Web Audio timing
  * - Schedules events slightly ahead of when they need to play
  * - Supports looping transport with configurable loop length
+ * - Repeats tracks with their own loop length on their own cycle inside the loop
  * - Handles track mute/solo state filtering
  */
 
 import type { SynthEvent } from '../dsl/compiler';
+import type { TimeSignature } from '../dsl/parser';
+import { createTempoMap, positionToSeconds, secondsToPosition, bpmAtPosition } from '../dsl/tempo';
+import type { TempoMap } from '../dsl/tempo';
 import { getAudioContext, ensureAudioContextResumed } from './engine';
 
 // ============================================================================
@@ -22,6 +26,9 @@ const SCHEDULE_AHEAD_SEC = 0.2;
 /** How often to call the scheduling function (in milliseconds) */
 const LOOKAHEAD_MS = 25;
 
+/** Tolerance for a track cycle that ends right on the loop boundary */
+const CYCLE_EPSILON = 1e-9;
+
 // ============================================================================
 // Scheduler State
 // ============================================================================
@@ -32,6 +39,12 @@ let scheduledEvents: SynthEvent[] = [];
 /** Index of the next event to schedule */
 let nextNoteIndex = 0;
 
+/** Events of tracks with their own loop length, repeated on their own cycle */
+let cycleEvents: SynthEvent[] = [];
+
+/** Elapsed time up to which cycle events have been scheduled */
+let cycleScheduledUntil = 0;
+
 /** Timer ID for the lookahead scheduler */
 let timerID: number | null = null;
 
@@ -46,6 +59,8 @@ let loopEnabled = false;
 let loopDurationSec = 0;
 let loopBars = 0;
 let currentBpm = 120;
+let currentTimeSignature: TimeSignature = { numerator: 4, denominator: 4 };
+let currentTempoMap: TempoMap = createTempoMap(currentBpm);
 
 /** Set of events already scheduled in current loop iteration (for preventing double-scheduling) */
 let scheduledInCurrentLoop: Set<number> = new Set();
@@ -76,6 +91,7 @@ export interface TransportState {
   loopEnabled: boolean;
   loopBars: number;
   bpm: number;
+  timeSignature: TimeSignature;
 }
 
 /**
@@ -84,6 +100,8 @@ export interface TransportState {
 export interface SchedulerConfig {
   events: SynthEvent[];
   bpm: number;
+  timeSignature?: TimeSignature;
+  tempoMap?: TempoMap;
   loopBars?: number;
   loopEnabled?: boolean;
   onTransportStateChange?: (state: TransportState) => void;
@@ -173,6 +191,8 @@ function scheduler(): void {
     onPlayheadUpdate(playheadPosition);
   }
   
+  scheduleCycles(elapsed);
+
   // If looping, check if we need to handle loop wrap
   if (loopEnabled && loopDurationSec > 0) {
     scheduleWithLooping(currentTime, elapsed);
@@ -181,6 +201,133 @@ function scheduler(): void {
   }
 }
 
+/**
+ * Find the times a track cycle event plays within a window of elapsed time.
+ * The cycle restarts at every pass of the global loop and repeats while it
+ * still starts inside the pass, so a 3/4 cycle in a one bar loop of 4/4
+ * plays at 0 and 3/4 and is cut off at the bar line.
+ * @param event - Event with its time inside the cycle and the cycle length
+ * @param passLength - Length of one global loop pass in seconds
+ * @param from - Window start in seconds since playback started (inclusive)
+ * @param to - Window end in seconds since playback started (exclusive)
+ * @param looping - Whether passes repeat; otherwise only the first pass plays
+ * @returns Times in seconds since playback started, in order
+ */
+function cycleTimesInWindow(
+  event: SynthEvent,
+  passLength: number,
+  from: number,
+  to: number,
+  looping: boolean
+): number[] {
+  const period = event.loop ?? passLength;
+  const times: number[] = [];
+  if (period <= 0 || passLength <= 0 || to <= from) {
+    return times;
+  }
+
+  const firstPass = Math.max(0, Math.floor(from / passLength));
+  const lastPass = looping ? Math.floor(to / passLength) : 0;
+
+  for (let pass = firstPass; pass <= lastPass; pass++) {
+    const passStart = pass * passLength;
+    let cycle = Math.max(0, Math.floor((from - passStart - event.t) / period));
+
+    for (; ; cycle++) {
+      const offset = cycle * period + event.t;
+      const time = passStart + offset;
+      if (offset >= passLength - CYCLE_EPSILON || time >= to) {
+        break;
+      }
+      if (time >= from) {
+        times.push(time);
+      }
+    }
+  }
+
+  return times;
+}
+
+/**
+ * Shorten a track cycle note that would still sound when its loop pass ends,
+ * so it does not run into the restarted cycle.
+ * @param event - Event of a track with its own loop length
+ * @param time - When this play of the event starts, in seconds since playback started
+ * @param passLength - Length of one global loop pass in seconds
+ * @returns The event, or a copy cut off at the end of the pass
+ */
+function cutAtPassEnd(event: SynthEvent, time: number, passLength: number): SynthEvent {
+  const passEnd = (Math.floor(time / passLength) + 1) * passLength;
+  const remaining = passEnd - time;
+  if (event.dur <= remaining && (event.gate ?? 0) <= remaining) {
+    return event;
+  }
+
+  const cut: SynthEvent = { ...event, dur: Math.min(event.dur, remaining) };
+  if (event.gate !== undefined) {
+    cut.gate = Math.min(event.gate, remaining);
+  }
+  return cut;
+}
+
+/**
+ * Length of the pass that track cycles repeat within: the global loop, or a
+ * single cycle when no loop length is set.
+ */
+function cyclePassLength(event: SynthEvent): number {
+  return loopDurationSec > 0 ? loopDurationSec : event.loop ?? 0;
+}
+
+/**
+ * Schedule the events of tracks with their own loop length, including the
+ * start of the next cycle or loop pass when it falls inside the lookahead window.
+ */
+function scheduleCycles(elapsed: number): void {
+  const from = Math.max(cycleScheduledUntil, elapsed);
+  const to = elapsed + SCHEDULE_AHEAD_SEC;
+  if (to <= from) return;
+
+  const looping = loopEnabled && loopDurationSec > 0;
+  const ctx = getAudioContext();
+  for (const event of cycleEvents) {
+    if (!shouldPlayEvent(event)) continue;
+
+    const passLength = cyclePassLength(event);
+    for (const time of cycleTimesInWindow(event, passLength, from, to, looping)) {
+      scheduleNote(ctx, cutAtPassEnd(event, time, passLength), startTime + time, getCurrentPlaybackToken());
+    }
+  }
+  cycleScheduledUntil = to;
+}
+
+/**
+ * Find when a track cycle event plays between two playhead positions, with
+ * the cycle restarting at every loop pass as it does during playback.
+ * @param event - Event of a track with its own loop length
+ * @param from - Start position in seconds (inclusive)
+ * @param to - End position in seconds (exclusive)
+ * @returns Start times in seconds, in order
+ */
+export function getCycleEventTimes(event: SynthEvent, from: number, to: number): number[] {
+  return cycleTimesInWindow(event, cyclePassLength(event), from, to, loopEnabled && loopDurationSec > 0);
+}
+
+/**
+ * Calculate when the last cycle event stops playing, for playback without looping.
+ * @returns End time in seconds since playback started
+ */
+function calculateCyclesEnd(): number {
+  let end = 0;
+  for (const event of cycleEvents) {
+    const passLength = cyclePassLength(event);
+    const times = cycleTimesInWindow(event, passLength, 0, passLength, false);
+    if (times.length > 0) {
+      end = Math.max(end, times[times.length - 1] + event.dur);
+    }
+  }
+  return end;
+}
+
 /**
  * Schedule events without looping (9.2.6 - stop at end if loop disabled)
  */
@@ -212,7 +359,8 @@ function scheduleWithoutLooping(currentTime: number, _elapsed: number): void {
   // Check if we've finished all events
   if (nextNoteIndex >= scheduledEvents.length) {
     const lastEvent = scheduledEvents[scheduledEvents.length - 1];
-    const endTime = lastEvent ? startTime + lastEvent.t + lastEvent.dur : startTime;
+    const lastEnd = lastEvent ? lastEvent.t + lastEvent.dur : 0;
+    const endTime = startTime + Math.max(lastEnd, calculateCyclesEnd());
     
     // Stop when all events have finished playing
     if (currentTime > endTime) {
@@ -309,15 +457,44 @@ function scheduleWithLooping(currentTime: number, elapsed: number): void {
 /**
  * Calculate loop duration in seconds from bars and BPM (9.2.1)
  * @param bars - Number of bars
- * @param bpm - Beats per minute
+ * @param bpm - Beats per minute (quarter notes per minute)
+ * @param timeSignature - Time signature defining the bar length (default 4/4)
+ * @param tempoMap - Tempo map with tempo changes (defaults to a constant bpm)
  * @returns Duration in seconds
  */
-export function calculateLoopDuration(bars: number, bpm: number): number {
-  // Assuming 4/4 time signature (4 beats per bar)
-  const beatsPerBar = 4;
-  const totalBeats = bars * beatsPerBar;
-  const secondsPerBeat = 60 / bpm;
-  return totalBeats * secondsPerBeat;
+export function calculateLoopDuration(
+  bars: number,
+  bpm: number,
+  timeSignature: TimeSignature = { numerator: 4, denominator: 4 },
+  tempoMap: TempoMap = createTempoMap(bpm)
+): number {
+  // A bar of n/d lasts as long as a note of duration n/d (e.g., 3/4 = 3 quarter notes)
+  const barLength = timeSignature.numerator / timeSignature.denominator;
+  return positionToSeconds(tempoMap, bars * barLength);
+}
+
+/**
+ * Convert a playhead position into a 1-based bar and beat.
+ * Beats are counted in the time signature's beat unit (eighths in 7/8).
+ * @param position - Playhead position in seconds
+ * @param bpm - Beats per minute (quarter notes per minute)
+ * @param timeSignature - Time signature defining bar and beat length
+ * @param tempoMap - Tempo map with tempo changes (defaults to a constant bpm)
+ * @returns Bar and beat numbers, both starting at 1
+ */
+export function getBarBeatPosition(
+  position: number,
+  bpm: number,
+  timeSignature: TimeSignature = { numerator: 4, denominator: 4 },
+  tempoMap: TempoMap = createTempoMap(bpm)
+): { bar: number; beat: number } {
+  const wholeNotes = secondsToPosition(tempoMap, Math.max(0, position));
+  // Small epsilon guards against floating point error right on a beat line
+  const totalBeats = Math.floor(wholeNotes * timeSignature.denominator + 1e-9);
+  return {
+    bar: Math.floor(totalBeats / timeSignature.numerator) + 1,
+    beat: (totalBeats % timeSignature.numerator) + 1,
+  };
 }
 
 /**
@@ -325,11 +502,16 @@ export function calculateLoopDuration(bars: number, bpm: number): number {
  * @param config - Scheduler configuration
  */
 export function initScheduler(config: SchedulerConfig): void {
-  scheduledEvents = [...config.events].sort((a, b) => a.t - b.t);
+  scheduledEvents = config.events.filter(event => event.loop === undefined).sort((a, b) => a.t - b.t);
+  cycleEvents = config.events.filter(event => event.loop !== undefined);
   currentBpm = config.bpm;
+  currentTimeSignature = config.timeSignature ?? { numerator: 4, denominator: 4 };
+  currentTempoMap = config.tempoMap ?? createTempoMap(currentBpm);
   loopBars = config.loopBars ?? 0;
   loopEnabled = config.loopEnabled ?? (loopBars > 0);
-  loopDurationSec = loopBars > 0 ? calculateLoopDuration(loopBars, currentBpm) : 0;
+  loopDurationSec = loopBars > 0
+    ? calculateLoopDuration(loopBars, currentBpm, currentTimeSignature, currentTempoMap)
+    : 0;
   onTransportStateChange = config.onTransportStateChange ?? null;
   onPlayheadUpdate = config.onPlayheadUpdate ?? null;
   
@@ -337,6 +519,7 @@ export function initScheduler(config: SchedulerConfig): void {
   nextNoteIndex = 0;
   scheduledInCurrentLoop.clear();
   currentLoopIteration = 0;
+  cycleScheduledUntil = 0;
   mutedTracks.clear();
   soloedTracks.clear();
 }
@@ -355,6 +538,7 @@ export async function play(): Promise<void> {
   nextNoteIndex = 0;
   scheduledInCurrentLoop.clear();
   currentLoopIteration = 0;
+  cycleScheduledUntil = 0;
   
   // Start the lookahead scheduler timer (9.1.3)
   timerID = window.setInterval(scheduler, LOOKAHEAD_MS);
@@ -384,6 +568,7 @@ export function stop(): void {
   nextNoteIndex = 0;
   scheduledInCurrentLoop.clear();
   currentLoopIteration = 0;
+  cycleScheduledUntil = 0;
   
   // Notify state change
   notifyTransportStateChange();
@@ -427,6 +612,29 @@ export function getCurrentBpm(): number {
   return currentBpm;
 }
 
+/**
+ * Get current time signature
+ */
+export function getCurrentTimeSignature(): TimeSignature {
+  return currentTimeSignature;
+}
+
+/**
+ * Get current tempo map
+ */
+export function getCurrentTempoMap(): TempoMap {
+  return currentTempoMap;
+}
+
+/**
+ * Get the tempo at a playhead position, following tempo changes
+ * @param position - Playhead position in seconds
+ * @returns Tempo in BPM
+ */
+export function getTempoAtPlayhead(position: number): number {
+  return bpmAtPosition(currentTempoMap, secondsToPosition(currentTempoMap, position));
+}
+
 /**
  * Get current loop bars setting
  */
@@ -460,6 +668,7 @@ export function getTransportState(): TransportState {
     loopEnabled,
     loopBars,
     bpm: currentBpm,
+    timeSignature: currentTimeSignature,
   };
 }
 
@@ -568,4 +777,6 @@ export const _testExports = {
   LOOKAHEAD_MS,
   shouldPlayEvent,
   calculateLoopDuration,
+  cycleTimesInWindow,
+  cutAtPassEnd,
 };
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { expandChordSymbol, isChordSymbol } from '../chord';
+
+describe('expandChordSymbol', () => {
+  it('should expand triads in octave 4 by default', () => {
+    expect(expandChordSymbol('C')).toEqual(['C4', 'E4', 'G4']);
+    expect(expandChordSymbol('Am')).toEqual(['A4', 'C5', 'E5']);
+    expect(expandChordSymbol('Bdim')).toEqual(['B4', 'D5', 'F5']);
+    expect(expandChordSymbol('Caug')).toEqual(['C4', 'E4', 'G#4']);
+  });
+
+  it('should place the root in the given octave', () => {
+    expect(expandChordSymbol('Cmaj7', 3)).toEqual(['C3', 'E3', 'G3', 'B3']);
+  });
+
+  it('should spell tones from the root letter', () => {
+    expect(expandChordSymbol('Eb')).toEqual(['Eb4', 'G4', 'Bb4']);
+    expect(expandChordSymbol('F#m7')).toEqual(['F#4', 'A4', 'C#5', 'E5']);
+  });
+
+  it('should expand suspended, sixth and seventh chords', () => {
+    expect(expandChordSymbol('Dsus2')).toEqual(['D4', 'E4', 'A4']);
+    expect(expandChordSymbol('Dsus4')).toEqual(['D4', 'G4', 'A4']);
+    expect(expandChordSymbol('C6')).toEqual(['C4', 'E4', 'G4', 'A4']);
+    expect(expandChordSymbol('G7')).toEqual(['G4', 'B4', 'D5', 'F5']);
+    expect(expandChordSymbol('Bm7b5')).toEqual(['B4', 'D5', 'F5', 'A5']);
+  });
+
+  it('should expand extended chords', () => {
+    expect(expandChordSymbol('C9')).toEqual(['C4', 'E4', 'G4', 'Bb4', 'D5']);
+    expect(expandChordSymbol('C11')).toEqual(['C4', 'E4', 'G4', 'Bb4', 'D5', 'F5']);
+    expect(expandChordSymbol('C13')).toEqual(['C4', 'E4', 'G4', 'Bb4', 'D5', 'A5']);
+    expect(expandChordSymbol('Cadd9')).toEqual(['C4', 'E4', 'G4', 'D5']);
+  });
+
+  it('should apply altered extensions', () => {
+    expect(expandChordSymbol('G7b9')).toEqual(['G4', 'B4', 'D5', 'F5', 'Ab5']);
+    expect(expandChordSymbol('C7#5')).toEqual(['C4', 'E4', 'G#4', 'Bb4']);
+  });
+
+  it('should respell tones that would need double accidentals', () => {
+    // Cdim7 has a diminished seventh (Bbb), spelled as A
+    expect(expandChordSymbol('Cdim7')).toEqual(['C4', 'Eb4', 'Gb4', 'A4']);
+  });
+
+  it('should put a slash bass note below the root', () => {
+    expect(expandChordSymbol('Am/C', 4)).toEqual(['C4', 'A4', 'C5', 'E5']);
+    expect(expandChordSymbol('C/G', 4)).toEqual(['G3', 'C4', 'E4', 'G4']);
+  });
+
+  it('should throw on unknown symbols', () => {
+    expect(() => expandChordSymbol('Cfoo')).toThrow("Invalid chord symbol 'Cfoo'");
+    expect(() => expandChordSymbol('cmaj7')).toThrow('Invalid chord symbol');
+  });
+});
+
+describe('isChordSymbol', () => {
+  it('should recognize chord symbols', () => {
+    expect(isChordSymbol('Cmaj7')).toBe(true);
+    expect(isChordSymbol('Am/C')).toBe(true);
+    expect(isChordSymbol('vel')).toBe(false);
+  });
+});
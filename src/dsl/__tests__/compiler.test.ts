@@ -3,6 +3,7 @@ import { compile, compileFromSource, generateSummary, formatEventsAsJson } from
 import type { SynthEvent, CompilationResult } from '../compiler';
 import { parse } from '../parser';
 import { tokenize } from '../tokenizer';
+import { createTempoMap, hasTempoChanges } from '../tempo';
 
 // Helper function to compile DSL source
 function compileDSL(source: string): SynthEvent[] {
@@ -247,6 +248,851 @@ describe('compileFromSource', () => {
   });
 });
 
+describe('tempo changes', () => {
+  it('should speed up notes after a tempo marker', () => {
+    // 120 BPM quarter = 0.5s, 240 BPM quarter = 0.25s
+    const events = compileDSL('bpm 120\nseq: C4 1/4, tempo 240, D4 1/4, E4 1/4');
+    expect(events[1].t).toBeCloseTo(0.5, 5);
+    expect(events[1].dur).toBeCloseTo(0.25, 5);
+    expect(events[2].t).toBeCloseTo(0.75, 5);
+  });
+
+  it('should apply a tempo marker from one track to all tracks', () => {
+    const events = compileDSL(`
+      bpm 120
+      inst lead sine
+      track a inst=lead: C4 1/2, tempo 60, C4 1/2
+      track b inst=lead: E4 1/4, E4 1/4, E4 1/4, E4 1/4
+    `);
+    const trackB = events.filter(e => e.track === 'b');
+    // Second half of the bar runs at 60 BPM: quarters last 1s
+    expect(trackB[2].t).toBeCloseTo(1.0, 5);
+    expect(trackB[3].t).toBeCloseTo(2.0, 5);
+  });
+
+  it('should ramp the tempo over the given number of bars', () => {
+    const events = compileDSL('bpm 120\nseq: rit 60 1, x4 { C4 1/4 }, C4 1/4');
+    // Each quarter in the ramp is longer than the previous one
+    for (let i = 1; i < 4; i++) {
+      expect(events[i].dur).toBeGreaterThan(events[i - 1].dur);
+    }
+    // After the ramp the target tempo holds: quarter = 1s
+    expect(events[4].dur).toBeCloseTo(1.0, 5);
+  });
+
+  it('should size ramps using the time signature', () => {
+    const events = compileDSL('bpm 120\ntime 3/4\nseq: accel 240 1, C4 3/4, C4 1/4');
+    expect(events[1].dur).toBeCloseTo(0.25, 5);
+  });
+
+  it('should throw a located error when accel slows down', () => {
+    expect(() => compileFromSource('bpm 120\nseq: C4 1/4,\n  accel 100 2')).toThrow(
+      'must be faster than the current tempo'
+    );
+    try {
+      compileFromSource('bpm 120\nseq: C4 1/4,\n  accel 100 2');
+    } catch (error) {
+      expect(error).toMatchObject({ line: 3, column: 3 });
+    }
+  });
+
+  it('should throw when rit speeds up', () => {
+    expect(() => compileFromSource('bpm 120\nseq: rit 140 1')).toThrow('must be slower');
+  });
+
+  it('should expose the tempo map and list changes in the summary', () => {
+    const result = compileFromSource('bpm 120\nseq: C4 1/4, tempo 90, D4 1/4, rit 60 1, E4 1/1');
+    expect(result.tempoMap.segments.length).toBeGreaterThan(1);
+    expect(generateSummary(result)).toContain('Tempo Changes: 120 → 90 → 60 BPM');
+  });
+
+  it('should keep swing on the grid across a tempo change', () => {
+    const result = compileFromSource('bpm 120\nswing 0.5\nseq: C4 1/4, tempo 60, C4 1/16, D4 1/16');
+    // D4 is an off-beat 16th at 60 BPM (16th = 0.25s), delayed by half a 16th
+    expect(result.events[2].t).toBeCloseTo(0.5 + 0.25 + 0.125, 5);
+  });
+});
+
+describe('tuplets', () => {
+  it('should fit three triplet eighths into a quarter note', () => {
+    // 120 BPM: quarter = 0.5s, triplet eighth = 1/6s
+    const events = compileDSL('bpm 120\nseq: 3:2 { C4 1/8, D4 1/8, E4 1/8 }, F4 1/4');
+    expect(events[1].t).toBeCloseTo(1 / 6, 5);
+    expect(events[2].dur).toBeCloseTo(1 / 6, 5);
+    expect(events[3].t).toBeCloseTo(0.5, 5);
+    expect(events.slice(0, 3).every(e => e.tuplet)).toBe(true);
+    expect(events[3].tuplet).toBeUndefined();
+  });
+
+  it('should support arbitrary ratios and nesting', () => {
+    // 5:4 sixteenths fill a quarter; a nested 3:2 inside scales again
+    const events = compileDSL('bpm 120\nseq: 5:4 { x5 { C4 1/16 } }, 3:2 { 3:2 { x3 { D4 1/16 } }, x2 { E4 1/8 } }, G4 1/4');
+    expect(events[4].t + events[4].dur).toBeCloseTo(0.5, 5);
+    const g = events[events.length - 1];
+    expect(g.t).toBeCloseTo(1.0, 5);
+  });
+
+  it('should compile triplet shorthand like a 3:2 block', () => {
+    const block = compileDSL('seq: 3:2 { C4 1/8, D4 1/8, E4 1/8 }');
+    const shorthand = compileDSL('seq: C4 1/8t, D4 1/8t, E4 1/8t');
+    expect(shorthand.map(e => e.t)).toEqual(block.map(e => e.t));
+    expect(shorthand.every(e => e.tuplet)).toBe(true);
+  });
+
+  it('should leave tuplet notes un-swung', () => {
+    const result = compileFromSource('bpm 120\nswing 0.5\ngrid 8\nseq: 3:2 { C4 1/8, D4 1/8, E4 1/8 }, C4 1/8, D4 1/8');
+    expect(result.events[1].t).toBeCloseTo(1 / 6, 5);
+    expect(result.events[2].t).toBeCloseTo(1 / 3, 5);
+    // The straight off-beat eighth after the triplet is still swung
+    expect(result.events[4].t).toBeCloseTo(0.75 + 0.125, 5);
+  });
+});
+
+describe('dotted durations and ties', () => {
+  it('should lengthen dotted notes', () => {
+    // 120 BPM: 1/4. = 0.75s, 1/4.. = 0.875s
+    const events = compileDSL('bpm 120\nseq: C4 1/4., D4 1/4.., E4 1/4');
+    expect(events[0].dur).toBeCloseTo(0.75, 5);
+    expect(events[1].dur).toBeCloseTo(0.875, 5);
+    expect(events[2].t).toBeCloseTo(1.625, 5);
+  });
+
+  it('should merge a tied note into a single event', () => {
+    const events = compileDSL('bpm 120\nseq: C4 1/2 ~ 1/8, D4 1/4');
+    expect(events).toHaveLength(2);
+    expect(events[0].dur).toBeCloseTo(1.25, 5);
+    expect(events[1].t).toBeCloseTo(1.25, 5);
+  });
+
+  it('should tie across a bar line with a repeated pitch', () => {
+    const events = compileDSL('bpm 120\nseq: r 3/4, G4 1/4 ~ G4 1/2, A4 1/4');
+    const notes = events.filter(e => e.kind === 'note');
+    expect(notes).toHaveLength(2);
+    expect(notes[0].dur).toBeCloseTo(1.5, 5);
+  });
+
+  it('should accept enharmonic spellings in a tie', () => {
+    const events = compileDSL('seq: C#4 1/4 ~ Db4 1/4');
+    expect(events).toHaveLength(1);
+  });
+
+  it('should throw a located error when tied pitches differ', () => {
+    expect(() => compileFromSource('seq: C4 1/4 ~ D4 1/4')).toThrow('tied notes must have the same pitch');
+    try {
+      compileFromSource('seq: C4 1/4 ~ D4 1/4');
+    } catch (error) {
+      expect(error).toMatchObject({ line: 1, column: 13 });
+    }
+  });
+
+  it('should extend every note of a tied chord', () => {
+    const events = compileDSL('bpm 120\nseq: [C4 E4 G4] 1/1 ~ 1/4');
+    expect(events).toHaveLength(3);
+    expect(events.every(e => Math.abs(e.dur - 2.5) < 1e-9)).toBe(true);
+  });
+});
+
+describe('chord voicings', () => {
+  it('should apply inversion and drop2 to chord notes', () => {
+    const events = compileDSL('seq: [C4 E4 G4] 1/4 inv=1, [C4 E4 G4 B4] 1/4 drop2');
+    expect(events.slice(0, 3).map(e => e.midi)).toEqual([64, 67, 72]);
+    expect(events.slice(3).map(e => e.midi)).toEqual([55, 60, 64, 71]);
+  });
+
+  it('should compute frequencies from the voiced notes', () => {
+    const events = compileDSL('seq: [A3 C4 E4] 1/4 inv=1');
+    const a4 = events.find(e => e.midi === 69);
+    expect(a4?.freq).toBeCloseTo(440, 5);
+  });
+
+  it('should voice-lead chords inside a voicelead block', () => {
+    const events = compileDSL('seq: voicelead { C:4 1/1, F:4 1/1, G:4 1/1 }');
+    const chords = [0, 2, 4].map(t => events.filter(e => Math.abs(e.t - t) < 1e-9).map(e => e.midi));
+    expect(chords).toEqual([[60, 64, 67], [60, 65, 69], [59, 62, 67]]);
+  });
+
+  it('should carry voice leading through repeats and leave chords outside alone', () => {
+    const events = compileDSL('seq: voicelead { x2 { C:4 1/1, F:4 1/1 } }, F:4 1/1');
+    const last = events.filter(e => Math.abs(e.t - 8) < 1e-9).map(e => e.midi);
+    expect(last).toEqual([65, 69, 72]);
+    const secondC = events.filter(e => Math.abs(e.t - 4) < 1e-9).map(e => e.midi);
+    expect(secondC).toEqual([60, 64, 67]);
+  });
+
+  it('should keep explicit voicings inside a voicelead block', () => {
+    const events = compileDSL('seq: voicelead { C:4 1/1, F:4 1/1 inv=2 }');
+    expect(events.filter(e => e.t > 0).map(e => e.midi)).toEqual([72, 77, 81]);
+  });
+
+  it('should throw a located error when a voicing leaves the MIDI range', () => {
+    expect(() => compileDSL('seq: C4 1/4,\n  [C9 E9 G9] 1/4 open')).toThrow(
+      'Chord voicing gives MIDI 136, outside the MIDI range (0-127)'
+    );
+    try {
+      compileDSL('seq: C4 1/4,\n  [C9 E9 G9] 1/4 open');
+    } catch (error) {
+      expect(error).toMatchObject({ line: 2, column: 3 });
+    }
+    expect(() => compileDSL('seq: [C9 E9 G9] 1/4 inv=2')).toThrow('outside the MIDI range');
+  });
+});
+
+describe('arp blocks', () => {
+  // At 120 BPM a 1/16 step lasts 0.125s
+  it('should play a chord upwards at the given rate for the chord length', () => {
+    const events = compileDSL('bpm 120\nseq: arp up 1/16 { [E4 C4 G4] 1/4 }, D4 1/4');
+    expect(events.map(e => e.midi)).toEqual([60, 64, 67, 60, 62]);
+    expect(events[1].t).toBeCloseTo(0.125, 5);
+    expect(events[3].dur).toBeCloseTo(0.125, 5);
+    expect(events[4].t).toBeCloseTo(0.5, 5);
+  });
+
+  it('should support down, updown and as-played orders', () => {
+    const midis = (mode: string) => compileDSL(`seq: arp ${mode} 1/16 { [E4 C4 G4] 1/4 }`).map(e => e.midi);
+    expect(midis('down')).toEqual([67, 64, 60, 67]);
+    expect(midis('updown')).toEqual([60, 64, 67, 64]);
+    expect(midis('as-played')).toEqual([64, 60, 67, 64]);
+  });
+
+  it('should span several octaves', () => {
+    const events = compileDSL('seq: arp up 1/16 octaves=2 { [C4 E4] 1/4 }');
+    expect(events.map(e => e.midi)).toEqual([60, 64, 72, 76]);
+  });
+
+  it('should throw when the octaves take a note past the MIDI range', () => {
+    expect(() => compileDSL('seq: arp up 1/16 octaves=2 {\n  [C9 G9] 1/4 }')).toThrow(
+      'arp octaves=2 takes MIDI 127 up to MIDI 139, outside the MIDI range (0-127)'
+    );
+    try {
+      compileDSL('seq: arp up 1/16 octaves=2 {\n  [C9 G9] 1/4 }');
+    } catch (error) {
+      expect(error).toMatchObject({ line: 2, column: 3 });
+    }
+  });
+
+  it('should cut the last step short to fit the chord', () => {
+    const events = compileDSL('bpm 120\nseq: arp up 1/8 { C:4 3/16 }');
+    expect(events).toHaveLength(2);
+    expect(events[1].dur).toBeCloseTo(0.125, 5);
+  });
+
+  it('should keep notes and rests inside the block as written', () => {
+    const events = compileDSL('seq: arp up 1/16 { C4 1/4, r 1/4 }');
+    expect(events.map(e => e.kind)).toEqual(['note', 'rest']);
+  });
+
+  it('should be deterministic in random mode and follow the seed', () => {
+    const source = (seed: number) => `seq: arp random 1/32 seed=${seed} { Cmaj7 1/1 }`;
+    const first = compileDSL(source(3)).map(e => e.midi);
+    expect(compileDSL(source(3)).map(e => e.midi)).toEqual(first);
+    expect(first).toHaveLength(32);
+    expect(first.every(midi => [60, 64, 67, 71].includes(midi!))).toBe(true);
+    expect(compileDSL(source(4)).map(e => e.midi)).not.toEqual(first);
+  });
+
+  it('should mark triplet-rate steps as tuplets', () => {
+    const events = compileDSL('seq: arp up 1/8t { C:4 1/4 }');
+    expect(events).toHaveLength(3);
+    expect(events.every(e => e.tuplet)).toBe(true);
+  });
+});
+
+describe('pattern transposition', () => {
+  it('should transpose notes and chords in a pattern', () => {
+    const events = compileDSL('pattern riff: C4 1/4, [C4 E4] 1/4\nseq: use riff +5');
+    expect(events.map(e => e.midi)).toEqual([65, 65, 69]);
+    expect(events[0].freq).toBeCloseTo(349.23, 2);
+  });
+
+  it('should shift by octaves', () => {
+    const events = compileDSL('pattern riff: A3 1/4\nseq: use riff oct=+1, use riff -12');
+    expect(events.map(e => e.midi)).toEqual([69, 45]);
+  });
+
+  it('should stack through nested pattern uses and repeat blocks', () => {
+    const events = compileDSL(`
+      pattern inner: C4 1/4
+      pattern outer: x2 { use inner +2 }
+      seq: use outer oct=+1, use inner
+    `);
+    expect(events.map(e => e.midi)).toEqual([74, 74, 60]);
+  });
+
+  it('should throw a located error when a note leaves the MIDI range', () => {
+    const source = 'pattern riff:\n  C4 1/4, G9 1/4\nseq: use riff +5';
+    expect(() => compileFromSource(source)).toThrow(
+      'G9 transposed by +5 semitones gives MIDI 132, outside the MIDI range (0-127)'
+    );
+    try {
+      compileFromSource(source);
+    } catch (error) {
+      expect(error).toMatchObject({ line: 2, column: 11 });
+    }
+  });
+
+  it('should throw when transposing below MIDI 0', () => {
+    expect(() => compileDSL('pattern riff: C0 1/4\nseq: use riff oct=-2')).toThrow('gives MIDI -12');
+  });
+});
+
+describe('pattern stretch', () => {
+  // At 120 BPM a whole note lasts 2 seconds
+  const groove = 'pattern groove: C2 1/16, r 1/16, [E2 G2] 1/8\n';
+
+  it('should double durations in half time', () => {
+    const events = compileDSL(groove + 'seq: use groove *2, C4 1/4');
+    expect(events.map(e => [e.t, e.dur])).toEqual([[0, 0.25], [0.25, 0.25], [0.5, 0.5], [0.5, 0.5], [1, 0.5]]);
+    expect(events.map(e => e.midi)).toEqual([36, null, 40, 43, 60]);
+  });
+
+  it('should halve durations in double time, for every repetition', () => {
+    const events = compileDSL(groove + 'seq: use groove /2 x2, C4 1/4');
+    expect(events.map(e => e.t)).toEqual([0, 0.0625, 0.125, 0.125, 0.25, 0.3125, 0.375, 0.375, 0.5]);
+  });
+
+  it('should stretch by fractional factors and multiply through nested uses', () => {
+    const events = compileDSL(`
+      pattern inner: C4 1/8
+      pattern outer: use inner *2, D4 1/8
+      seq: use outer *3/2, E4 1/4
+    `);
+    expect(events.map(e => e.dur)).toEqual([0.75, 0.375, 0.5]);
+    expect(events[2].t).toBeCloseTo(1.125, 5);
+  });
+
+  it('should stretch arpeggio rates', () => {
+    const events = compileDSL('pattern a: arp up 1/16 { [C4 E4] 1/8 }\nseq: use a *2');
+    expect(events.map(e => e.dur)).toEqual([0.25, 0.25]);
+  });
+});
+
+describe('pattern transforms', () => {
+  const riff = 'pattern riff: C4 1/8, [E4 G4] 1/4, r 1/8, B4 1/2\n';
+
+  function notes(events: SynthEvent[]): (number | null)[][] {
+    return events.map(e => [e.t, e.midi]);
+  }
+
+  it('should play the steps in reverse, keeping chords together', () => {
+    const events = compileDSL(riff + 'seq: use riff reverse');
+    // At 120 BPM a whole note lasts 2 seconds
+    expect(notes(events)).toEqual([[0, 71], [1, null], [1.25, 64], [1.25, 67], [1.75, 60]]);
+  });
+
+  it('should rotate the steps', () => {
+    expect(compileDSL(riff + 'seq: use riff rotate=1').map(e => e.midi)).toEqual([64, 67, null, 71, 60]);
+    expect(compileDSL(riff + 'seq: use riff rotate=-1').map(e => e.midi)).toEqual([71, 60, 64, 67, null]);
+  });
+
+  it('should mirror pitches around the axis, before transposition', () => {
+    expect(compileDSL(riff + 'seq: use riff invert=E4').map(e => e.midi)).toEqual([68, 64, 61, null, 57]);
+    expect(compileDSL(riff + 'seq: use riff invert=E4 +2').map(e => e.midi)).toEqual([70, 66, 63, null, 59]);
+  });
+
+  it('should shuffle reproducibly and vary the order across repetitions', () => {
+    const source = 'pattern run: C4 1/16, D4 1/16, E4 1/16, F4 1/16, G4 1/16, A4 1/16\nseq: use run shuffle seed=3 x2';
+    const first = compileDSL(source).map(e => e.midi);
+    expect(compileDSL(source).map(e => e.midi)).toEqual(first);
+    expect([...first.slice(0, 6)].sort()).toEqual([60, 62, 64, 65, 67, 69]);
+    expect(first.slice(0, 6)).not.toEqual(first.slice(6));
+  });
+
+  it('should apply transforms to each repetition', () => {
+    const events = compileDSL('pattern p: C4 1/4, D4 1/4\nseq: use p reverse x2, E4 1/4');
+    expect(events.map(e => e.midi)).toEqual([62, 60, 62, 60, 64]);
+    expect(events[4].t).toBeCloseTo(2, 5);
+  });
+
+  it('should throw a located error when an inversion leaves the MIDI range', () => {
+    const source = 'pattern p: C0 1/4\nseq: use p invert=C9';
+    expect(() => compileFromSource(source)).toThrow('Inverting around C9 gives MIDI 228');
+    try {
+      compileFromSource(source);
+    } catch (error) {
+      expect(error).toMatchObject({ line: 2, column: 12 });
+    }
+  });
+});
+
+describe('pattern parameters', () => {
+  it('should substitute pitch, interval, velocity and duration arguments', () => {
+    const events = compileDSL(`
+      pattern bass(root, v, len): root len vel=v, root+7 len vel=v, [root root+4] 1/4
+      seq: use bass(E2, 0.9, 1/8), use bass(A2, 0.5, 1/4)
+    `);
+    expect(events.map(e => e.midi)).toEqual([40, 47, 40, 44, 45, 52, 45, 49]);
+    expect(events[0].vel).toBe(0.9);
+    expect(events[4].vel).toBe(0.5);
+    expect(events[1].t).toBeCloseTo(0.25, 5);
+    expect(events[5].t).toBeCloseTo(1.5, 5);
+  });
+
+  it('should pass arguments through nested patterns', () => {
+    const events = compileDSL(`
+      pattern note(p): p 1/4
+      pattern fifths(root): use note(root), use note(root+7)
+      seq: use fifths(C4) +2
+    `);
+    expect(events.map(e => e.midi)).toEqual([62, 69]);
+  });
+
+  it('should apply the key to pitch arguments', () => {
+    const events = compileDSL('key F major\npattern p(root): root 1/4, root+2 1/4\nseq: use p(B3)');
+    expect(events.map(e => e.midi)).toEqual([58, 60]);
+  });
+
+  it('should throw a located error on the wrong number of arguments', () => {
+    const source = 'pattern bass(root, v): root 1/4 vel=v\nseq: C4 1/4, use bass(E2)';
+    expect(() => compileFromSource(source)).toThrow("Pattern 'bass' expects 2 arguments (root, v), got 1");
+    try {
+      compileFromSource(source);
+    } catch (error) {
+      expect(error).toMatchObject({ line: 2, column: 14 });
+    }
+    expect(() => compileDSL('pattern p: C4 1/4\nseq: use p(C4)')).toThrow("Pattern 'p' takes no arguments, got 1");
+  });
+
+  it('should throw a located error when an argument has the wrong type', () => {
+    const source = 'pattern bass(root, v):\n  root 1/4 vel=v\nseq: use bass(0.9, E2)';
+    expect(() => compileFromSource(source)).toThrow(
+      "Parameter 'root' is used as a pitch but was given number 0.9 (line 3, column 15)"
+    );
+    try {
+      compileFromSource(source);
+    } catch (error) {
+      expect(error).toMatchObject({ line: 2, column: 3 });
+    }
+  });
+
+  it('should throw when a velocity argument is out of range', () => {
+    expect(() => compileDSL('pattern p(v): C4 1/4 vel=v\nseq: use p(2)')).toThrow('Invalid velocity: 2');
+  });
+});
+
+describe('probability and seed', () => {
+  const run = 'x16 { C4 1/16 p=0.5 }';
+
+  it('should turn notes that do not play into rests of the same length', () => {
+    const events = compileDSL(`seq: ${run}, D4 1/4`);
+    const kinds = events.slice(0, 16).map(e => e.kind);
+    expect(kinds).toContain('note');
+    expect(kinds).toContain('rest');
+    expect(events[16]).toMatchObject({ kind: 'note', midi: 62, t: 2 });
+  });
+
+  it('should always play p=1 and never play p=0', () => {
+    const events = compileDSL('seq: C4 1/4 p=1, D4 1/4 p=0, [E4 G4] 1/4 p=0 vel=0.5');
+    expect(events.map(e => e.kind)).toEqual(['note', 'rest', 'rest']);
+  });
+
+  it('should be reproducible for a seed and vary between seeds', () => {
+    const pattern = (seed: number) => compileDSL(`seed ${seed}\nseq: ${run}`).map(e => e.kind).join();
+    expect(pattern(3)).toBe(pattern(3));
+    expect(pattern(3)).not.toBe(pattern(4));
+    // Without a seed directive the default seed is used
+    expect(compileDSL(`seq: ${run}`).map(e => e.kind).join()).toBe(pattern(1));
+  });
+
+  it('should seed arp random mode and shuffles that have no seed of their own', () => {
+    const arp = (seed: number) => compileDSL(`seed ${seed}\nseq: arp random 1/32 { Cmaj7 1/1 }`).map(e => e.midi).join();
+    expect(arp(5)).toBe(compileDSL('seq: arp random 1/32 seed=5 { Cmaj7 1/1 }').map(e => e.midi).join());
+
+    const source = 'pattern run: C4 1/16, D4 1/16, E4 1/16, F4 1/16, G4 1/16, A4 1/16\n';
+    const shuffled = (seed: number) => compileDSL(`seed ${seed}\n${source}seq: use run shuffle`).map(e => e.midi).join();
+    expect(shuffled(8)).toBe(compileDSL(`${source}seq: use run shuffle seed=8`).map(e => e.midi).join());
+  });
+});
+
+describe('pitch choices', () => {
+  it('should cycle through alternations on each pass of a repeat', () => {
+    const events = compileDSL('seq: x5 { C2 1/8, <E4 G4 B4> 1/8 }');
+    expect(events.filter((_, i) => i % 2 === 1).map(e => e.midi)).toEqual([64, 67, 71, 64, 67]);
+  });
+
+  it('should advance alternations on each pattern use and restart in each track', () => {
+    const source = 'pattern p: <C4 D4> 1/4\ninst lead sine\ntrack a inst=lead: use p, use p x2\ntrack b inst=lead: use p';
+    const events = compileDSL(source);
+    expect(events.filter(e => e.track === 'a').map(e => e.midi)).toEqual([60, 62, 60]);
+    expect(events.filter(e => e.track === 'b').map(e => e.midi)).toEqual([60]);
+  });
+
+  it('should pick random choices reproducibly from the program seed', () => {
+    const picks = (seed: number) => compileDSL(`seed ${seed}\nseq: x16 { {C4|E4|G4} 1/16 vel=0.5 }`);
+    const events = picks(3);
+    expect(new Set(events.map(e => e.midi))).toEqual(new Set([60, 64, 67]));
+    expect(events.every(e => e.vel === 0.5)).toBe(true);
+    expect(events.map(e => e.midi)).toEqual(picks(3).map(e => e.midi));
+    expect(events.map(e => e.midi)).not.toEqual(picks(4).map(e => e.midi));
+  });
+});
+
+describe('euclid', () => {
+  it('should play the hit on Euclidean steps and rest on the others', () => {
+    const events = compileDSL('seq: euclid(3, 8) C2 1/8 vel=0.7, D4 1/4');
+    expect(events.map(e => e.kind)).toEqual(['note', 'rest', 'rest', 'note', 'rest', 'rest', 'note', 'rest', 'note']);
+    expect(events[3]).toMatchObject({ midi: 36, vel: 0.7, t: 0.75, dur: 0.25 });
+    expect(events[8]).toMatchObject({ midi: 62, t: 2 });
+  });
+
+  it('should rotate the pattern and play chords on each hit', () => {
+    const events = compileDSL('seq: euclid(1, 4, 3) [C4 E4] 1/16');
+    expect(events.map(e => e.kind)).toEqual(['rest', 'note', 'note', 'rest', 'rest']);
+    expect(events[1]).toMatchObject({ t: 0.125 });
+  });
+
+  it('should be swung like written notes', () => {
+    const written = compileDSL('swing 0.6\ngrid 8\nseq: C2 1/8, C2 1/8, r 1/8, C2 1/8');
+    const generated = compileDSL('swing 0.6\ngrid 8\nseq: euclid(3, 4) C2 1/8');
+    expect(generated.map(e => e.t)).toEqual(written.map(e => e.t));
+  });
+});
+
+describe('step strings', () => {
+  it('should expand hits, accents, rests and ties', () => {
+    const events = compileDSL('seq: steps C2 1/16 "xX.x--." vel=0.5');
+    expect(events.map(e => [e.kind, e.vel])).toEqual([
+      ['note', 0.5], ['note', 1], ['rest', 0], ['note', 0.5], ['rest', 0],
+    ]);
+    expect(events[3]).toMatchObject({ midi: 36, t: 0.375, dur: 0.375 });
+    expect(events[4]).toMatchObject({ t: 0.75, dur: 0.125 });
+  });
+
+  it('should take the step length from the grid by default', () => {
+    const events = compileDSL('grid 8\nseq: steps C2 "x.X." accent=0.9, D2 1/4');
+    expect(events.map(e => e.t)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(events[2].vel).toBe(0.9);
+  });
+
+  it('should take pitches from pattern parameters', () => {
+    const events = compileDSL('pattern kick(drum): steps drum 1/8 "x.x."\nseq: use kick(A1)');
+    expect(events.filter(e => e.kind === 'note').map(e => e.midi)).toEqual([33, 33]);
+  });
+});
+
+describe('articulations', () => {
+  it('should shorten staccato notes without moving the next note', () => {
+    const events = compileDSL('seq: C4 1/4 stacc, D4 1/4 ., E4 1/4');
+    expect(events[0]).toMatchObject({ t: 0, dur: 0.5, gate: 0.25 });
+    expect(events[1]).toMatchObject({ t: 0.5, gate: 0.25 });
+    expect(events[2]).toMatchObject({ t: 1, dur: 0.5 });
+    expect(events[2]).not.toHaveProperty('gate');
+  });
+
+  it('should lengthen legato notes and boost accented ones', () => {
+    const events = compileDSL('seq: C4 1/4 legato, D4 1/4 > vel=0.5, E4 1/4 > vel=0.9, [C4 E4] 1/4 ten');
+    expect(events[0].gate).toBeCloseTo(0.55, 10);
+    expect(events[1].vel).toBeCloseTo(0.7, 10);
+    expect(events[2].vel).toBe(1);
+    expect(events[3]).not.toHaveProperty('gate');
+  });
+
+  it('should apply staccato to every arpeggio step', () => {
+    const events = compileDSL('seq: arp up 1/8 { [C4 E4] 1/4 stacc }');
+    expect(events.map(e => e.gate)).toEqual([0.125, 0.125]);
+  });
+
+  it('should follow tempo changes when converting the sounding length', () => {
+    const events = compileDSL('bpm 120\nseq: tempo 60, C4 1/4 stacc');
+    expect(events[0]).toMatchObject({ dur: 1, gate: 0.5 });
+  });
+});
+
+describe('gate', () => {
+  const gates = (source: string) => compileDSL(source).map(e => e.gate);
+
+  it('should sound each note for a fraction of its length', () => {
+    const events = compileDSL('gate 0.5\nseq: C4 1/4, r 1/4, D4 1/2');
+    expect(events.map(e => [e.t, e.dur, e.gate])).toEqual([[0, 0.5, 0.25], [0.5, 0.5, undefined], [1, 1, 0.5]]);
+  });
+
+  it('should let the note, track and instrument override the global gate in that order', () => {
+    const instruments = 'gate 0.5\ninst pluck square gate=0.25\ninst pad sine\n';
+    expect(gates(`${instruments}track a inst=pluck: C4 1/4`)).toEqual([0.125]);
+    expect(gates(`${instruments}track a inst=pad: C4 1/4`)).toEqual([0.25]);
+    expect(gates(`${instruments}track a inst=pluck gate=0.75: C4 1/4, D4 1/4 gate=1`)).toEqual([0.375, undefined]);
+  });
+
+  it('should let articulations override the track gate', () => {
+    expect(gates('inst organ sine\ntrack a inst=organ gate=0.5: C4 1/4 ten, D4 1/4 stacc gate=0.75')).toEqual([undefined, 0.375]);
+  });
+});
+
+describe('nudge and humanize', () => {
+  it('should move nudged notes without moving the next item', () => {
+    const events = compileDSL('seq: C4 1/4 nudge=+8ms, D4 1/4 nudge=-1/16, [E4 G4] 1/4 nudge=-10ms, A4 1/4');
+    expect(events.map(e => e.t)).toEqual([0.008, 0.375, 0.99, 0.99, 1.5]);
+    expect(events[1].dur).toBe(0.5);
+  });
+
+  it('should keep duration nudges on their notes through pattern transforms', () => {
+    const events = compileDSL(
+      'pattern riff: C4 1/4 nudge=1/32, D4 1/4, E4 1/2\nseq: use riff reverse, use riff invert=C4, use riff rotate=1'
+    );
+    // A 1/32 nudge is 0.0625 seconds; every repetition still lasts 2 seconds
+    expect(events.map(e => [e.t, e.midi])).toEqual([
+      [0, 64], [1, 62], [1.5625, 60],
+      [2.0625, 60], [2.5, 58], [3, 56],
+      [4, 62], [4.5, 64], [5.5625, 60],
+    ]);
+  });
+
+  it('should never nudge a note before the start', () => {
+    expect(compileDSL('seq: C4 1/4 nudge=-20ms')[0].t).toBe(0);
+  });
+
+  it('should humanize notes reproducibly from the program seed', () => {
+    const source = (seed: number) => `seed ${seed}\nhumanize time=10 vel=0.1\nseq: x8 { C4 1/8 }`;
+    const events = compileFromSource(source(2)).events;
+    expect(events.some((e, i) => Math.abs(e.t - i * 0.25) > 1e-9)).toBe(true);
+    expect(events.every((e, i) => Math.abs(e.t - i * 0.25) <= 0.01 + 1e-9)).toBe(true);
+    expect(compileFromSource(source(2)).events).toEqual(events);
+    expect(compileFromSource(source(3)).events).not.toEqual(events);
+  });
+
+  it('should apply the humanize of each section track over the global one', () => {
+    const source = `humanize time=20 vel=0.1
+inst a sine
+section tight:
+  track lead inst=a humanize time=0 vel=0: x4 { C4 1/4 }
+section loose:
+  track lead inst=a: x4 { E4 1/4 }
+song: tight, loose`;
+    const events = compileFromSource(source).events;
+    const tight = events.filter(e => e.midi === 60);
+    expect(tight.map(e => [e.t, e.vel])).toEqual([[0, 0.8], [0.5, 0.8], [1, 0.8], [1.5, 0.8]]);
+    expect(events.filter(e => e.midi === 64).map(e => e.t)).not.toEqual([2, 2.5, 3, 3.5]);
+  });
+
+  it('should apply track humanize only to that track', () => {
+    const source = 'inst a sine\ntrack tight inst=a: x4 { C4 1/4 }\ntrack loose inst=a humanize time=20: x4 { E4 1/4 }';
+    const events = compileFromSource(source).events;
+    expect(events.filter(e => e.track === 'tight').map(e => e.t)).toEqual([0, 0.5, 1, 1.5]);
+    expect(events.filter(e => e.track === 'loose').map(e => e.t)).not.toEqual([0, 0.5, 1, 1.5]);
+  });
+});
+
+describe('let constants', () => {
+  it('should play pitch constants with intervals', () => {
+    const events = compileDSL('let root = E2\nlet fifth = root + 7\nseq: root 1/4, fifth 1/4, fifth + 12 1/4');
+    expect(events.map(e => e.midi)).toEqual([40, 47, 59]);
+  });
+
+  it('should apply the track key before the interval', () => {
+    // Eb major: the constant's E is flat, then the fifth is exact
+    const events = compileDSL('key Eb major\nlet root = E3\nseq: root 1/4, root + 7 1/4');
+    expect(events.map(e => e.midi)).toEqual([51, 58]);
+  });
+
+  it('should resolve constants inside patterns and as pattern arguments', () => {
+    const events = compileDSL(`
+      let root = A2
+      let accent = 0.9
+      pattern hit: root 1/8 vel=accent
+      pattern bass(note, v): note 1/8 vel=v, note+12 1/8 vel=v
+      seq: use hit, use bass(root + 2, accent - 0.4)
+    `);
+    expect(events.map(e => e.midi)).toEqual([45, 47, 59]);
+    expect(events[0].vel).toBe(0.9);
+    expect(events[1].vel).toBeCloseTo(0.5, 10);
+  });
+});
+
+describe('key signatures', () => {
+  it('should apply the global key to plain notes', () => {
+    // Eb major: E, A and B are flat
+    const events = compileDSL('key Eb major\nseq: E4 1/4, A4 1/4, B4 1/4, C4 1/4');
+    expect(events.map(e => e.midi)).toEqual([63, 68, 70, 60]);
+  });
+
+  it('should let a natural sign and explicit accidentals override the key', () => {
+    const events = compileDSL('key Eb major\nseq: En4 1/4, E#4 1/4');
+    expect(events.map(e => e.midi)).toEqual([64, 65]);
+  });
+
+  it('should apply the key to chords and notes inside patterns', () => {
+    const events = compileDSL('key D major\npattern p: F4 1/4\nseq: [D4 F4 A4] 1/4, use p');
+    expect(events.map(e => e.midi)).toEqual([62, 66, 69, 66]);
+  });
+
+  it('should let a track key override the global key', () => {
+    const events = compileDSL(`
+      key Eb major
+      inst lead sine
+      track a inst=lead: B4 1/4
+      track b inst=lead key E major: G4 1/4
+      track c inst=lead key C major: B4 1/4
+    `);
+    const midiByTrack = Object.fromEntries(events.map(e => [e.track, e.midi]));
+    expect(midiByTrack).toEqual({ a: 70, b: 68, c: 71 });
+  });
+
+  it('should resolve tied pitches through the key', () => {
+    const events = compileDSL('key F major\nseq: B3 1/4 ~ Bb3 1/4');
+    expect(events).toHaveLength(1);
+    expect(events[0].midi).toBe(58);
+  });
+
+  it('should not apply the key to chord symbols', () => {
+    // The symbol already spells its tones: E is natural in C even in Eb major
+    const events = compileDSL('key Eb major\nseq: C:4 1/4');
+    expect(events.map(e => e.midi)).toEqual([60, 64, 67]);
+  });
+
+  it('should show the key in the summary', () => {
+    const result = compileFromSource('key F# dorian\nseq: C4 1/4');
+    expect(generateSummary(result)).toContain('Key: F# dorian');
+  });
+});
+
+describe('extended pitches', () => {
+  it('should compile double accidentals and MIDI note numbers', () => {
+    const events = compileDSL('seq: C##4 1/4, Dbb4 1/4, m61 1/4');
+    expect(events.map(e => e.midi)).toEqual([62, 60, 61]);
+  });
+
+  it('should not apply the key to MIDI note numbers', () => {
+    const events = compileDSL('key F major\nseq: m71 1/4');
+    expect(events[0].midi).toBe(71);
+  });
+
+  it('should detune the frequency by cents and keep midi on the nearest semitone', () => {
+    const events = compileDSL('seq: A4+15c 1/4, A4+60c 1/4, [C4 E4-14c] 1/4');
+    expect(events.map(e => e.midi)).toEqual([69, 70, 60, 64]);
+    expect(events[0].freq).toBeCloseTo(440 * Math.pow(2, 15 / 1200), 6);
+    expect(events[1].freq).toBeCloseTo(440 * Math.pow(2, 60 / 1200), 6);
+    expect(events[3].freq).toBeCloseTo(440 * Math.pow(2, -514 / 1200), 6);
+  });
+
+  it('should keep cents through transposition and inversion', () => {
+    const transposed = compileDSL('pattern p: A4+15c 1/4\nseq: use p +12');
+    expect(transposed[0].freq).toBeCloseTo(880 * Math.pow(2, 15 / 1200), 6);
+
+    // A4+15c mirrored around C4 is Eb3-15c
+    const inverted = compileDSL('pattern p: A4+15c 1/4\nseq: use p invert=C4');
+    expect(inverted[0].midi).toBe(51);
+    expect(inverted[0].freq).toBeCloseTo(440 * Math.pow(2, (51 - 69 - 0.15) / 12), 6);
+  });
+
+  it('should only tie notes with the same cent offset', () => {
+    expect(compileDSL('seq: A4+15c 1/4 ~ A4+15c 1/4')).toHaveLength(1);
+    expect(() => compileDSL('seq: A4+15c 1/4 ~ A4 1/4')).toThrow('tied notes must have the same pitch');
+  });
+});
+
+describe('tunings', () => {
+  it('should retune notes to the reference frequency, keeping midi', () => {
+    const events = compileDSL('tuning a4=432\nseq: A4 1/4, A5 1/4, r 1/4');
+    expect(events.map(e => e.midi)).toEqual([69, 81, null]);
+    expect(events[0].freq).toBe(432);
+    expect(events[1].freq).toBeCloseTo(864, 6);
+    expect(events[2].freq).toBeNull();
+  });
+
+  it('should step by equal divisions and keep cent offsets', () => {
+    const events = compileDSL('tuning edo=19\nseq: A4 1/4, A#4 1/4, A4+15c 1/4');
+    expect(events[0].freq).toBeCloseTo(440, 6);
+    expect(events[1].freq).toBeCloseTo(440 * Math.pow(2, 1 / 19), 6);
+    expect(events[2].freq).toBeCloseTo(440 * Math.pow(2, 15 / 1200), 6);
+  });
+
+  it('should silence notes the keyboard mapping leaves unmapped', () => {
+    const kbm = '12\n0\n127\n60\n69\n440\n7\n0\nx\n1\nx\n2\n3\nx\n4\nx\n5\nx\n6';
+    const scl = 'Just major\n7\n9/8\n5/4\n4/3\n3/2\n5/3\n15/8\n2/1';
+    const events = compileDSL(`tuning scl="""\n${scl}\n""" kbm="""\n${kbm}\n"""\nseq: C4 1/4, C#4 1/4 gate=0.5, E4 1/4`);
+    expect(events.map(e => e.kind)).toEqual(['note', 'rest', 'note']);
+    expect(events[0].freq).toBeCloseTo(264, 6);
+    expect(events[1]).toMatchObject({ midi: null, freq: null, vel: 0 });
+    expect(events[1].gate).toBeUndefined();
+    expect(events[2].freq).toBeCloseTo(330, 6);
+  });
+
+  it('should show the tuning in the summary', () => {
+    expect(generateSummary(compileFromSource('tuning edo=31 a4=432\nseq: C4 1/4'))).toContain('Tuning: 31-EDO (A4 = 432 Hz)');
+  });
+});
+
+describe('sections and song', () => {
+  const sections = `
+inst lead sine
+section intro:
+  track lead inst=lead: C4 1/4
+section verse:
+  track lead inst=lead: E4 1/2, F4 1/2
+  track bass inst=lead: C2 1/1, G2 1/4
+`;
+
+  it('should lay the sections out in song order, each rounded up to whole bars', () => {
+    const result = compileFromSource(sections + 'song: intro, verse x2');
+    // At 120 BPM a 4/4 bar lasts 2 seconds; the verse runs into a second bar
+    expect(result.sections).toEqual([
+      { name: 'intro', start: 0, end: 2 },
+      { name: 'verse', start: 2, end: 6 },
+      { name: 'verse', start: 6, end: 10 },
+    ]);
+    const lead = result.events.filter(e => e.track === 'lead');
+    expect(lead.map(e => [e.t, e.midi])).toEqual([[0, 60], [2, 64], [3, 65], [6, 64], [7, 65]]);
+    expect(result.events.filter(e => e.track === 'bass').map(e => e.t)).toEqual([2, 4, 6, 8]);
+  });
+
+  it('should play the sections in definition order without a song line', () => {
+    const result = compileFromSource(sections);
+    expect(result.sections.map(section => [section.name, section.start])).toEqual([['intro', 0], ['verse', 2]]);
+  });
+
+  it('should keep top-level tracks at time 0 alongside the song', () => {
+    const result = compileFromSource(sections + 'track pad inst=lead: C3 1/1\nsong: verse');
+    expect(result.events.filter(e => e.track === 'pad').map(e => e.t)).toEqual([0]);
+    expect(result.events.filter(e => e.track === 'lead').map(e => e.t)).toEqual([0, 1]);
+  });
+
+  it('should place section boundaries through the tempo map', () => {
+    const result = compileFromSource('bpm 60\ntime 3/4\n' + sections + 'song: intro, verse');
+    // A 3/4 bar at 60 BPM lasts 3 seconds; the verse needs two bars
+    expect(result.sections).toEqual([
+      { name: 'intro', start: 0, end: 3 },
+      { name: 'verse', start: 3, end: 9 },
+    ]);
+  });
+
+  it('should have no sections without section blocks', () => {
+    expect(compileFromSource('seq: C4 1/4').sections).toEqual([]);
+  });
+
+  it('should list the sections in the summary', () => {
+    const summary = generateSummary(compileFromSource(sections + 'song: verse, intro'));
+    expect(summary).toContain('Sections: verse (0.00s), intro (4.00s)');
+  });
+});
+
+describe('track loops', () => {
+  it('should keep one cycle of a looping track and mark it with the cycle length', () => {
+    const result = compileFromSource('inst hat sine\ntrack hats inst=hat loop=3/4: C4 1/4, D4 1/4, E4 1/4, F4 1/4');
+    // At 120 BPM a 3/4 cycle lasts 1.5 seconds; the fourth quarter falls outside it
+    expect(result.events.map(e => [e.t, e.midi, e.loop])).toEqual([[0, 60, 1.5], [0.5, 62, 1.5], [1, 64, 1.5]]);
+  });
+
+  it('should cut off a note that crosses the cycle end', () => {
+    const result = compileFromSource('inst hat sine\ntrack hats inst=hat loop=3/8: C5 1/4, D5 1/4 legato, E5 1/4');
+    // The 3/8 cycle lasts 0.75 seconds; D5 starts at 0.5 and may only sound until 0.75
+    expect(result.events.map(e => [e.t, e.dur, e.gate])).toEqual([[0, 0.5, undefined], [0.5, 0.25, 0.25]]);
+  });
+
+  it('should reject track loops under tempo changes, ignoring changes past the cycle', () => {
+    expect(() => compileFromSource('inst hat sine\ntrack hats inst=hat loop=1/2: C4 1/4, tempo 90, C4 1/4')).toThrow(
+      "Track 'hats' sets loop= but the tempo changes. Track loops need a constant tempo"
+    );
+    const result = compileFromSource('inst hat sine\ntrack hats inst=hat loop=1/2: C4 1/4, C4 1/4, tempo 90, C4 1/4');
+    expect(hasTempoChanges(result.tempoMap)).toBe(false);
+    expect(result.events.map(e => e.loop)).toEqual([1, 1]);
+  });
+
+  it('should leave other tracks without a cycle length', () => {
+    const result = compileFromSource('inst hat sine\ntrack hats inst=hat loop=1/2: C4 1/4\ntrack lead inst=hat: G4 1/1');
+    expect(result.events.filter(e => e.track === 'lead')[0].loop).toBeUndefined();
+    expect(generateSummary(result)).toContain('Track Loops: hats (1.00s)');
+  });
+});
+
 describe('generateSummary', () => {
   it('should generate correct summary', () => {
     const result: CompilationResult = {
@@ -258,12 +1104,30 @@ describe('generateSummary', () => {
         { t: 0.5, dur: 0.5, kind: 'rest', midi: null, freq: null, vel: 0, inst: 'lead', waveform: 'sine' },
         { t: 1.0, dur: 0.5, kind: 'note', midi: 62, freq: 293.66, vel: 0.8, inst: 'lead', waveform: 'sine' },
       ],
-      globalSettings: { swing: 0, loop: 1, grid: 16 },
+      globalSettings: { swing: 0, loop: 1, grid: 16, timeSignature: { numerator: 4, denominator: 4 } },
+      tempoMap: createTempoMap(120),
+      sections: [],
     };
     const summary = generateSummary(result);
     expect(summary).toContain('BPM: 120');
     expect(summary).toContain('Total Duration: 1.500s');
     expect(summary).toContain('Events: 3 (2 notes, 1 rests)');
+    expect(summary).toContain('Time Signature: 4/4');
+  });
+
+  it('should include the seed in use, marking the default one', () => {
+    expect(generateSummary(compileFromSource('seed 42\nseq: C4 1/8'))).toContain('Seed: 42');
+    expect(generateSummary(compileFromSource('seq: C4 1/8'))).toContain('Seed: 1 (default)');
+  });
+
+  it('should include the global gate when one is set', () => {
+    expect(generateSummary(compileFromSource('gate 0.5\nseq: C4 1/8'))).toContain('Gate: 0.5');
+    expect(generateSummary(compileFromSource('seq: C4 1/8'))).not.toContain('Gate');
+  });
+
+  it('should include a non-default time signature', () => {
+    const result = compileFromSource('time 7/8\nseq: C4 1/8');
+    expect(generateSummary(result)).toContain('Time Signature: 7/8');
   });
 
   it('should handle zero events', () => {
@@ -272,7 +1136,9 @@ describe('generateSummary', () => {
       totalDuration: 0,
       eventCount: 0,
       events: [],
-      globalSettings: { swing: 0, loop: 1, grid: 16 },
+      globalSettings: { swing: 0, loop: 1, grid: 16, timeSignature: { numerator: 4, denominator: 4 } },
+      tempoMap: createTempoMap(120),
+      sections: [],
     };
     const summary = generateSummary(result);
     expect(summary).toContain('Events: 0 (0 notes, 0 rests)');
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseDuration, durationToSeconds, parseDurationToSeconds } from '../duration';
+import { parseDuration, formatDuration, durationToSeconds, parseDurationToSeconds } from '../duration';
 import type { Duration } from '../duration';
 
 describe('parseDuration', () => {
@@ -82,6 +82,42 @@ describe('parseDuration', () => {
   it('should throw on negative denominator', () => {
     expect(() => parseDuration('1/-4')).toThrow('Invalid duration: denominator must be positive');
   });
+
+  it('should parse triplet shorthand as two thirds of the written value', () => {
+    expect(parseDuration('1/8t')).toEqual({ numerator: 2, denominator: 24, tuplet: true });
+    expect(parseDuration('1/4t')).toEqual({ numerator: 2, denominator: 12, tuplet: true });
+  });
+
+  it('should parse dotted durations', () => {
+    expect(parseDuration('1/4.')).toEqual({ numerator: 3, denominator: 8 });
+    expect(parseDuration('1/4..')).toEqual({ numerator: 7, denominator: 16 });
+  });
+
+  it('should parse dotted triplets', () => {
+    expect(parseDuration('1/8t.')).toEqual({ numerator: 6, denominator: 48, tuplet: true });
+  });
+
+  it('should throw on more than two dots', () => {
+    expect(() => parseDuration('1/4...')).toThrow('at most two dots');
+  });
+
+  it('should convert triplet eighths so that three fill a quarter note', () => {
+    expect(durationToSeconds(parseDuration('1/8t'), 120) * 3).toBeCloseTo(0.5, 10);
+  });
+});
+
+describe('formatDuration', () => {
+  it('should write fractions in lowest terms', () => {
+    expect(formatDuration({ numerator: 2, denominator: 8 })).toBe('1/4');
+    expect(formatDuration(parseDuration('1/4.'))).toBe('3/8');
+  });
+
+  it('should write triplets so they parse back to the same length', () => {
+    expect(formatDuration(parseDuration('1/8t'))).toBe('1/8t');
+    const doubled = parseDuration('1/8t');
+    doubled.numerator *= 2;
+    expect(formatDuration(doubled)).toBe('1/4t');
+  });
 });
 
 describe('durationToSeconds', () => {
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { euclid } from '../euclid';
+
+const show = (pattern: boolean[]) => pattern.map(hit => (hit ? 'x' : '.')).join('');
+
+describe('euclid', () => {
+  it('should spread hits as evenly as possible', () => {
+    expect(show(euclid(3, 8))).toBe('x..x..x.');
+    expect(show(euclid(5, 8))).toBe('x.xx.xx.');
+    expect(show(euclid(4, 16))).toBe('x...x...x...x...');
+    expect(show(euclid(2, 5))).toBe('x.x..');
+  });
+
+  it('should handle no hits and every step a hit', () => {
+    expect(show(euclid(0, 4))).toBe('....');
+    expect(show(euclid(4, 4))).toBe('xxxx');
+  });
+
+  it('should rotate left, and right for negative rotations', () => {
+    expect(show(euclid(3, 8, 1))).toBe('..x..x.x');
+    expect(show(euclid(3, 8, -1))).toBe('.x..x..x');
+    expect(euclid(3, 8, 8)).toEqual(euclid(3, 8));
+  });
+
+  it('should reject counts out of range', () => {
+    expect(() => euclid(9, 8)).toThrow('Invalid hit count: 9. Must be between 0 and 8');
+    expect(() => euclid(1, 0)).toThrow('Invalid step count: 0');
+  });
+});
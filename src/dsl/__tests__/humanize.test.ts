@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { applyHumanize } from '../humanize';
+import type { SynthEvent } from '../compiler';
+
+function note(t: number, overrides: Partial<SynthEvent> = {}): SynthEvent {
+  return {
+    t,
+    dur: 0.25,
+    kind: 'note',
+    midi: 60,
+    freq: 261.63,
+    vel: 0.8,
+    inst: 'lead',
+    waveform: 'sine',
+    ...overrides,
+  };
+}
+
+const notes = Array.from({ length: 8 }, (_, i) => note(i * 0.25));
+
+describe('applyHumanize', () => {
+  it('should return the events unchanged without settings', () => {
+    expect(applyHumanize(notes, undefined, 1, 2)).toBe(notes);
+  });
+
+  it('should keep offsets within the configured amounts', () => {
+    const humanized = applyHumanize(notes, { time: 10, velocity: 0.1 }, 1, 2);
+    humanized.forEach((event, i) => {
+      expect(Math.abs(event.t - notes[i].t)).toBeLessThanOrEqual(0.01);
+      expect(Math.abs(event.vel - 0.8)).toBeLessThanOrEqual(0.1 + 1e-9);
+    });
+    expect(humanized.some((event, i) => event.t !== notes[i].t)).toBe(true);
+  });
+
+  it('should be reproducible for a seed and leave the input untouched', () => {
+    const settings = { time: 20, velocity: 0.2 };
+    const a = applyHumanize(notes, settings, 5, 2);
+    expect(applyHumanize(notes, settings, 5, 2)).toEqual(a);
+    expect(applyHumanize(notes, settings, 6, 2)).not.toEqual(a);
+    expect(notes[1].t).toBe(0.25);
+  });
+
+  it('should never move notes before 0 or out of their loop pass', () => {
+    const edges = [note(0), note(1.9999), note(2), note(3.9999)];
+    const humanized = applyHumanize(edges, { time: 500, velocity: 1 }, 3, 2);
+    const passes = humanized.map(event => Math.floor(event.t / 2));
+    expect(humanized.every(event => event.t >= 0)).toBe(true);
+    expect(passes.sort()).toEqual([0, 0, 1, 1]);
+    expect(humanized.every(event => event.vel >= 0 && event.vel <= 1)).toBe(true);
+  });
+
+  it('should use the settings on a note over the global ones and leave rests alone', () => {
+    const events = [note(0, { track: 'drums' }), note(0.5, { track: 'keys', humanize: { time: 0, velocity: 0.3 } }), { ...note(1), kind: 'rest' as const, vel: 0 }];
+    const humanized = applyHumanize(events, undefined, 1, 2);
+    expect(humanized[0]).toEqual(events[0]);
+    expect(humanized[1].t).toBe(0.5);
+    expect(humanized[1].vel).not.toBe(0.8);
+    expect(humanized[2]).toEqual(events[2]);
+  });
+});
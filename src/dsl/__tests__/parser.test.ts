@@ -58,6 +58,762 @@ describe('parse', () => {
     });
   });
 
+  describe('time directive', () => {
+    it('should default to 4/4', () => {
+      const ast = parseDSL('bpm 120');
+      expect(ast.globalSettings.timeSignature).toEqual({ numerator: 4, denominator: 4 });
+    });
+
+    it('should parse time 3/4', () => {
+      const ast = parseDSL('time 3/4');
+      expect(ast.globalSettings.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+    });
+
+    it('should parse odd meters like 7/8', () => {
+      const ast = parseDSL('time 7/8');
+      expect(ast.globalSettings.timeSignature).toEqual({ numerator: 7, denominator: 8 });
+    });
+
+    it('should end a sequence block', () => {
+      const ast = parseDSL('seq: C4 1/4\ntime 3/4');
+      expect(ast.sequence!.items).toHaveLength(1);
+      expect(ast.globalSettings.timeSignature.numerator).toBe(3);
+    });
+
+    it('should throw when the signature is missing', () => {
+      expect(() => parseDSL('time 3')).toThrow(ParseError);
+      expect(() => parseDSL('time 3')).toThrow('Expected time signature');
+    });
+
+    it('should throw on invalid beat unit', () => {
+      expect(() => parseDSL('time 3/5')).toThrow(ParseError);
+      expect(() => parseDSL('time 3/5')).toThrow('Beat unit must be one of');
+    });
+
+    it('should throw on dotted or triplet signatures', () => {
+      expect(() => parseDSL('time 3/4.')).toThrow(
+        'Invalid time signature: 3/4. (write it as <beats>/<beat unit>, e.g., 3/4) at line 1, column 1'
+      );
+      expect(() => parseDSL('time 3/4t')).toThrow('Invalid time signature: 3/4t');
+    });
+  });
+
+  describe('key directive', () => {
+    it('should have no key by default', () => {
+      const ast = parseDSL('bpm 120');
+      expect(ast.globalSettings.key).toBeUndefined();
+    });
+
+    it('should parse a global key with its accidentals', () => {
+      const ast = parseDSL('key Eb major');
+      expect(ast.globalSettings.key).toEqual({
+        tonic: 'Eb',
+        mode: 'major',
+        accidentals: { E: 'b', A: 'b', B: 'b' },
+      });
+    });
+
+    it('should parse a sharp tonic and a church mode', () => {
+      const ast = parseDSL('key F# dorian');
+      expect(ast.globalSettings.key!.accidentals).toEqual({ F: '#', G: '#', C: '#', D: '#' });
+    });
+
+    it('should parse a track key after the instrument', () => {
+      const ast = parseDSL('inst bass sine\ntrack b inst=bass key A minor: A2 1/4');
+      expect(ast.tracks[0].key).toMatchObject({ tonic: 'A', mode: 'minor', accidentals: {} });
+      expect(ast.tracks[0].items).toHaveLength(1);
+    });
+
+    it('should end a sequence block', () => {
+      const ast = parseDSL('seq: C4 1/4\nkey D major');
+      expect(ast.sequence!.items).toHaveLength(1);
+      expect(ast.globalSettings.key!.tonic).toBe('D');
+    });
+
+    it('should throw on an unknown mode', () => {
+      expect(() => parseDSL('key C blues')).toThrow(ParseError);
+      expect(() => parseDSL('key C blues')).toThrow('unknown mode "blues"');
+    });
+
+    it('should throw when the mode is missing', () => {
+      expect(() => parseDSL('key C')).toThrow('Expected mode after key tonic');
+    });
+  });
+
+  describe('tempo changes', () => {
+    it('should parse tempo inside a sequence', () => {
+      const ast = parseDSL('seq: C4 1/4, tempo 90, D4 1/4');
+      expect(ast.sequence!.items[1]).toMatchObject({ type: 'tempo', mode: 'set', bpm: 90 });
+      expect(ast.sequence!.items[1]).not.toHaveProperty('bars');
+    });
+
+    it('should parse accel and rit with a ramp length in bars', () => {
+      const ast = parseDSL('track t inst=lead: accel 140 2, C4 1/1, rit 60 4');
+      expect(ast.tracks[0].items[0]).toMatchObject({ type: 'tempo', mode: 'accel', bpm: 140, bars: 2 });
+      expect(ast.tracks[0].items[2]).toMatchObject({ type: 'tempo', mode: 'rit', bpm: 60, bars: 4 });
+    });
+
+    it('should throw when a ramp length is missing', () => {
+      expect(() => parseDSL('seq: rit 60')).toThrow('Expected number of bars after rit 60');
+    });
+
+    it('should throw on zero tempo', () => {
+      expect(() => parseDSL('seq: tempo 0')).toThrow(ParseError);
+      expect(() => parseDSL('seq: tempo 0')).toThrow('Invalid BPM value');
+    });
+  });
+
+  describe('tuplet blocks', () => {
+    it('should parse a triplet block', () => {
+      const ast = parseDSL('seq: 3:2 { C4 1/8, D4 1/8, E4 1/8 }, F4 1/4');
+      const tuplet = ast.sequence!.items[0];
+      expect(tuplet).toMatchObject({ type: 'tuplet', count: 3, span: 2 });
+      expect(tuplet.type === 'tuplet' && tuplet.items).toHaveLength(3);
+      expect(ast.sequence!.items[1].type).toBe('note');
+    });
+
+    it('should throw on a zero ratio', () => {
+      expect(() => parseDSL('seq: 0:2 { C4 1/8 }')).toThrow('Invalid tuplet ratio');
+    });
+
+    it('should throw when the block is not closed', () => {
+      expect(() => parseDSL('seq: 3:2 { C4 1/8')).toThrow('Expected } to close tuplet block');
+    });
+  });
+
+  describe('ties', () => {
+    it('should parse a duration-only tie', () => {
+      const ast = parseDSL('seq: C4 1/2 ~ 1/8');
+      const note = ast.sequence!.items[0];
+      expect(note).toMatchObject({ type: 'note', duration: '1/2', ties: [{ duration: '1/8' }] });
+    });
+
+    it('should parse a tie with a repeated pitch, chained ties and velocity', () => {
+      const ast = parseDSL('seq: C4 1/2 ~ C4 1/4 ~ 1/8 vel=0.5');
+      const note = ast.sequence!.items[0];
+      expect(note).toMatchObject({
+        ties: [{ pitch: 'C4', duration: '1/4' }, { duration: '1/8' }],
+        velocity: 0.5,
+      });
+    });
+
+    it('should parse a tie on a chord', () => {
+      const ast = parseDSL('seq: [C4 E4] 1/1 ~ 1/2');
+      expect(ast.sequence!.items[0]).toMatchObject({ type: 'chord', ties: [{ duration: '1/2' }] });
+    });
+
+    it('should throw when ~ is not followed by a duration', () => {
+      expect(() => parseDSL('seq: C4 1/2 ~, D4 1/4')).toThrow('Expected pitch or duration after ~');
+      expect(() => parseDSL('seq: [C4 E4] 1/2 ~ C4 1/4')).toThrow('Expected duration after ~');
+    });
+  });
+
+  describe('chord symbols', () => {
+    it('should expand a chord symbol into chord pitches', () => {
+      const ast = parseDSL('seq: Cmaj7:4 1/2');
+      expect(ast.sequence!.items[0]).toEqual({
+        type: 'chord',
+        pitches: ['C4', 'E4', 'G4', 'B4'],
+        symbol: 'Cmaj7',
+        duration: '1/2',
+        line: 1,
+        column: 6,
+      });
+    });
+
+    it('should produce the same pitches as a bracketed chord', () => {
+      const symbol = parseDSL('seq: C:3 1/4').sequence!.items[0];
+      const bracketed = parseDSL('seq: [C3 E3 G3] 1/4').sequence!.items[0];
+      expect(symbol).toMatchObject({ pitches: (bracketed as { pitches: string[] }).pitches });
+    });
+
+    it('should parse slash chords, sharps and note-like symbols', () => {
+      const ast = parseDSL('seq: Am/C 1/4, F#m 1/4, G7:3 1/1 vel=0.5');
+      expect(ast.sequence!.items.map(item => item.type)).toEqual(['chord', 'chord', 'chord']);
+      expect(ast.sequence!.items[0]).toMatchObject({ pitches: ['C4', 'A4', 'C5', 'E5'] });
+      expect(ast.sequence!.items[2]).toMatchObject({ pitches: ['G3', 'B3', 'D4', 'F4'], velocity: 0.5 });
+    });
+
+    it('should still read C7 without an octave as a note', () => {
+      const ast = parseDSL('seq: C7 1/4');
+      expect(ast.sequence!.items[0]).toMatchObject({ type: 'note', pitch: 'C7' });
+    });
+
+    it('should read 11th and 13th chords without an octave as chord symbols', () => {
+      const ast = parseDSL('seq: C11 1/4, Bb13 1/4, C13:3 1/4');
+      expect(ast.sequence!.items.map(item => item.type)).toEqual(['chord', 'chord', 'chord']);
+      expect(ast.sequence!.items[0]).toMatchObject({ symbol: 'C11', pitches: ['C4', 'E4', 'G4', 'Bb4', 'D5', 'F5'] });
+      expect(ast.sequence!.items[2]).toMatchObject({ symbol: 'C13', pitches: ['C3', 'E3', 'G3', 'Bb3', 'D4', 'A4'] });
+    });
+
+    it('should report an out-of-range note where it is written', () => {
+      expect(() => parseDSL('seq: C4 1/4, C12 1/4')).toThrow(
+        'Invalid pitch: octave 12 out of range (0-9) at line 1, column 14'
+      );
+      expect(() => parseDSL('seq: [C4 m200] 1/4')).toThrow('at line 1, column 10');
+    });
+
+    it('should throw on an unknown chord quality', () => {
+      expect(() => parseDSL('seq: Cfoo 1/4')).toThrow(ParseError);
+      expect(() => parseDSL('seq: Cfoo 1/4')).toThrow("Invalid chord symbol 'Cfoo'");
+    });
+
+    it('should throw when the octave is out of range', () => {
+      expect(() => parseDSL('seq: C13:9 1/4')).toThrow('out of range');
+    });
+
+    it('should keep the sequence error for other words', () => {
+      expect(() => parseDSL('seq: foo 1/4')).toThrow("Expected note, rest, chord, repeat, tuplet, voicelead, arp, use, or tempo change in sequence, got 'foo'");
+    });
+  });
+
+  describe('chord voicings', () => {
+    it('should parse voicing modifiers with velocity in any order', () => {
+      const ast = parseDSL('seq: [C4 E4 G4 B4] 1/2 drop2 inv=1 vel=0.5 open');
+      expect(ast.sequence!.items[0]).toMatchObject({
+        type: 'chord',
+        velocity: 0.5,
+        voicing: { inversion: 1, drop2: true, open: true },
+      });
+    });
+
+    it('should parse voicing modifiers on chord symbols', () => {
+      const ast = parseDSL('seq: Cmaj7 1/2 inv=2');
+      expect(ast.sequence!.items[0]).toMatchObject({ symbol: 'Cmaj7', voicing: { inversion: 2 } });
+    });
+
+    it('should throw when the inversion exceeds the chord size', () => {
+      expect(() => parseDSL('seq: [C4 E4 G4] 1/2 inv=3')).toThrow(ParseError);
+      expect(() => parseDSL('seq: [C4 E4 G4] 1/2 inv=3')).toThrow('has inversions 0-2');
+    });
+
+    it('should parse a voicelead block', () => {
+      const ast = parseDSL('seq: voicelead { C:3 1/1, F:3 1/1 }, C4 1/4');
+      expect(ast.sequence!.items[0]).toMatchObject({ type: 'voicelead', line: 1, column: 6 });
+      expect((ast.sequence!.items[0] as { items: unknown[] }).items).toHaveLength(2);
+      expect(ast.sequence!.items[1]).toMatchObject({ type: 'note' });
+    });
+
+    it('should throw on an unclosed voicelead block', () => {
+      expect(() => parseDSL('seq: voicelead { C:3 1/1')).toThrow('Expected } to close voicelead block');
+    });
+  });
+
+  describe('arp blocks', () => {
+    it('should parse an arp block with defaults', () => {
+      const ast = parseDSL('seq: arp up 1/16 { C:4 1/4 }');
+      expect(ast.sequence!.items[0]).toMatchObject({
+        type: 'arp',
+        mode: 'up',
+        rate: '1/16',
+        octaves: 1,
+        line: 1,
+        column: 6,
+      });
+      expect(ast.sequence!.items[0]).not.toHaveProperty('seed');
+    });
+
+    it('should parse the as-played mode, octaves and seed', () => {
+      const ast = parseDSL('seq: arp as-played 1/8 octaves=2 seed=9 { [C4 G4 E4] 1/2 }');
+      expect(ast.sequence!.items[0]).toMatchObject({ mode: 'as-played', octaves: 2, seed: 9 });
+    });
+
+    it('should not treat an instrument named arp as a block', () => {
+      const ast = parseDSL('inst arp sine\ntrack a inst=arp: C4 1/4');
+      expect(ast.tracks[0].instrumentName).toBe('arp');
+    });
+
+    it('should throw on an unknown mode', () => {
+      expect(() => parseDSL('seq: arp sideways 1/16 { C:4 1/4 }')).toThrow(ParseError);
+      expect(() => parseDSL('seq: arp sideways 1/16 { C:4 1/4 }')).toThrow("Invalid arp mode 'sideways'");
+    });
+
+    it('should throw on a missing rate or bad octaves', () => {
+      expect(() => parseDSL('seq: arp up { C:4 1/4 }')).toThrow('Expected rate after arp up');
+      expect(() => parseDSL('seq: arp up 1/16 octaves=0 { C:4 1/4 }')).toThrow('Invalid octaves value');
+    });
+  });
+
+  describe('pattern transposition', () => {
+    it('should parse semitone shifts', () => {
+      const ast = parseDSL('pattern riff: C4 1/4\nseq: use riff +5, use riff -12');
+      expect(ast.sequence!.items[0]).toMatchObject({ type: 'patternUse', transpose: 5 });
+      expect(ast.sequence!.items[1]).toMatchObject({ type: 'patternUse', transpose: -12 });
+    });
+
+    it('should parse octave shifts and combine them with repeats and semitones', () => {
+      const ast = parseDSL('pattern riff: C4 1/4\nseq: use riff oct=+1, use riff x2 oct=-1 +3');
+      expect(ast.sequence!.items[0]).toMatchObject({ transpose: 12, repetitions: 1 });
+      expect(ast.sequence!.items[1]).toMatchObject({ transpose: -9, repetitions: 2 });
+    });
+
+    it('should leave transpose unset without a shift', () => {
+      const ast = parseDSL('pattern riff: C4 1/4\nseq: use riff x2');
+      expect(ast.sequence!.items[0]).not.toHaveProperty('transpose');
+    });
+
+    it('should throw when a sign has no number', () => {
+      expect(() => parseDSL('pattern riff: C4 1/4\nseq: use riff +')).toThrow('Expected number of semitones');
+      expect(() => parseDSL('pattern riff: C4 1/4\nseq: use riff oct=up')).toThrow('Expected number of octaves');
+    });
+  });
+
+  describe('pattern stretch', () => {
+    it('should parse augmentation, diminution and fractional factors', () => {
+      const ast = parseDSL('pattern riff: C4 1/4\nseq: use riff *2, use riff /2 x2, use riff *3/2');
+      expect(ast.sequence!.items.map(item => (item as any).stretch)).toEqual([2, 0.5, 1.5]);
+      expect(ast.sequence!.items[1]).toMatchObject({ repetitions: 2 });
+    });
+
+    it('should leave stretch unset without a factor', () => {
+      const ast = parseDSL('pattern riff: C4 1/4\nseq: use riff');
+      expect(ast.sequence!.items[0]).not.toHaveProperty('stretch');
+    });
+
+    it('should throw on a missing or zero factor', () => {
+      expect(() => parseDSL('pattern riff: C4 1/4\nseq: use riff *')).toThrow('Expected stretch factor after *');
+      expect(() => parseDSL('pattern riff: C4 1/4\nseq: use riff /0')).toThrow('Invalid stretch factor: 0');
+    });
+  });
+
+  describe('pattern transforms', () => {
+    it('should parse transforms in written order', () => {
+      const ast = parseDSL('pattern riff: C4 1/4\nseq: use riff reverse invert=C4 rotate=-1 x2 shuffle seed=3');
+      expect(ast.sequence!.items[0]).toMatchObject({
+        repetitions: 2,
+        transforms: [
+          { kind: 'reverse' },
+          { kind: 'invert', axis: 'C4' },
+          { kind: 'rotate', steps: -1 },
+          { kind: 'shuffle', seed: 3 },
+        ],
+      });
+    });
+
+    it('should leave the seed unset for a plain shuffle', () => {
+      const ast = parseDSL('pattern riff: C4 1/4\nseq: use riff shuffle, C4 1/4');
+      expect((ast.sequence!.items[0] as any).transforms[0]).not.toHaveProperty('seed');
+    });
+
+    it('should throw on missing transform values', () => {
+      expect(() => parseDSL('pattern riff: C4 1/4\nseq: use riff invert=up')).toThrow('Expected pitch to invert around');
+      expect(() => parseDSL('pattern riff: C4 1/4\nseq: use riff rotate')).toThrow('Expected = after rotate');
+    });
+  });
+
+  describe('pattern parameters', () => {
+    it('should parse parameter names and arguments', () => {
+      const ast = parseDSL('pattern bass(root, v): root 1/4 vel=v\nseq: use bass(E2, 0.9) x2');
+      expect(ast.patterns[0].params!.map(p => p.name)).toEqual(['root', 'v']);
+      expect(ast.patterns[0].items[0]).toMatchObject({
+        type: 'note',
+        pitch: { type: 'param', name: 'root' },
+        velocity: { type: 'param', name: 'v' },
+      });
+      expect(ast.sequence!.items[0]).toMatchObject({
+        type: 'patternUse',
+        repetitions: 2,
+        args: [{ type: 'pitch', value: 'E2' }, { type: 'number', value: '0.9' }],
+      });
+    });
+
+    it('should parse intervals, duration parameters and chord parameters', () => {
+      const ast = parseDSL('pattern p(root, len): root+7 len, [root root-5] 1/4\nseq: use p(C4, 1/8.)');
+      expect(ast.patterns[0].items[0]).toMatchObject({
+        pitch: { name: 'root', offset: 7 },
+        duration: { type: 'param', name: 'len' },
+      });
+      expect((ast.patterns[0].items[1] as any).pitches[1]).toMatchObject({ name: 'root', offset: -5 });
+      expect(ast.sequence!.items[0]).toMatchObject({ args: [{ type: 'pitch' }, { type: 'duration', value: '1/8.' }] });
+    });
+
+    it('should throw on duplicate parameters and invalid arguments', () => {
+      expect(() => parseDSL('pattern p(a, a): a 1/4')).toThrow("Duplicate parameter 'a'");
+      expect(() => parseDSL('pattern p(a): a 1/4\nseq: use p(r)')).toThrow(
+        'Expected pitch, number or duration as pattern argument'
+      );
+    });
+  });
+
+  describe('probability and seed', () => {
+    it('should parse the seed directive', () => {
+      expect(parseDSL('seed 42').globalSettings.seed).toBe(42);
+      expect(parseDSL('bpm 120').globalSettings.seed).toBeUndefined();
+    });
+
+    it('should parse p= on notes and chords in any order with vel', () => {
+      const ast = parseDSL('seq: C4 1/4 p=0.4, D4 1/4 p=0.5 vel=0.7, [C4 E4] 1/2 vel=0.6 p=0.25');
+      expect(ast.sequence!.items[0]).toMatchObject({ probability: 0.4 });
+      expect(ast.sequence!.items[1]).toMatchObject({ probability: 0.5, velocity: 0.7 });
+      expect(ast.sequence!.items[2]).toMatchObject({ type: 'chord', probability: 0.25, velocity: 0.6 });
+    });
+
+    it('should still parse seed= options on arp blocks and shuffles', () => {
+      const ast = parseDSL('pattern riff: C4 1/4\nseq: arp random 1/16 seed=9 { Cmaj7 1/4 }, use riff shuffle seed=2');
+      expect(ast.sequence!.items[0]).toMatchObject({ type: 'arp', seed: 9 });
+      expect((ast.sequence!.items[1] as any).transforms[0]).toMatchObject({ seed: 2 });
+    });
+
+    it('should throw on invalid probabilities and seeds', () => {
+      expect(() => parseDSL('seq: C4 1/4 p=1.5')).toThrow('Invalid probability: 1.5. Must be between 0 and 1');
+      expect(() => parseDSL('seed 1.5')).toThrow('Invalid seed value: 1.5');
+    });
+  });
+
+  describe('pitch choices', () => {
+    it('should parse random choices and alternations with note options', () => {
+      const ast = parseDSL('seq: {C4|E4|G4} 1/8 vel=0.5, <C4 E4> 1/4 p=0.5');
+      expect(ast.sequence!.items[0]).toMatchObject({
+        type: 'choice',
+        mode: 'random',
+        options: ['C4', 'E4', 'G4'],
+        duration: '1/8',
+        velocity: 0.5,
+      });
+      expect(ast.sequence!.items[1]).toMatchObject({
+        type: 'choice',
+        mode: 'cycle',
+        options: ['C4', 'E4'],
+        duration: '1/4',
+        probability: 0.5,
+      });
+    });
+
+    it('should accept parameters and constants as options', () => {
+      const ast = parseDSL('let fifth = G2\npattern bass(root): <root fifth> 1/4');
+      expect((ast.patterns[0].items[0] as any).options).toEqual([
+        { type: 'param', name: 'root', line: 2, column: 22 },
+        { type: 'param', name: 'fifth', line: 2, column: 27 },
+      ]);
+    });
+
+    it('should throw on malformed choices', () => {
+      expect(() => parseDSL('seq: {C4 E4} 1/8')).toThrow('Expected | between choices');
+      expect(() => parseDSL('seq: <> 1/8')).toThrow('Empty alternation');
+      expect(() => parseDSL('seq: <C4 E4 1/8')).toThrow('Expected pitch in alternation');
+      expect(() => parseDSL('seq: {C4|E4}')).toThrow('Expected duration after choice');
+    });
+
+    it('should report an out-of-range pitch in a choice where it is written', () => {
+      expect(() => parseDSL('seq: {C4|C12} 1/8')).toThrow('Invalid pitch: octave 12 out of range (0-9) at line 1, column 10');
+      expect(() => parseDSL('seq: <C4 m200> 1/8')).toThrow('at line 1, column 10');
+    });
+  });
+
+  describe('euclid', () => {
+    it('should parse hits, steps and an optional rotation', () => {
+      const ast = parseDSL('seq: euclid(3, 8) C2 1/16 vel=0.8, euclid(5,8,-2) [C4 E4] 1/8');
+      expect(ast.sequence!.items[0]).toMatchObject({
+        type: 'euclid',
+        hits: 3,
+        steps: 8,
+        rotation: 0,
+        hit: { type: 'note', pitch: 'C2', duration: '1/16', velocity: 0.8 },
+        line: 1,
+        column: 6,
+      });
+      expect(ast.sequence!.items[1]).toMatchObject({ hits: 5, steps: 8, rotation: -2, hit: { type: 'chord' } });
+    });
+
+    it('should accept chord symbols, choices and constants', () => {
+      const ast = parseDSL('let n = 8\nseq: euclid(3, n) Am7 1/8, euclid(2, 4) {C4|D4} 1/4');
+      expect(ast.sequence!.items[0]).toMatchObject({ steps: 8, hit: { type: 'chord', symbol: 'Am7' } });
+      expect(ast.sequence!.items[1]).toMatchObject({ hit: { type: 'choice', mode: 'random' } });
+    });
+
+    it('should throw on invalid counts and hits', () => {
+      expect(() => parseDSL('seq: euclid(9, 8) C2 1/16')).toThrow('Invalid hit count: 9. Must be between 0 and 8 at line 1, column 13');
+      expect(() => parseDSL('seq: euclid(1, 0) C2 1/16')).toThrow('Invalid step count: 0');
+      expect(() => parseDSL('seq: euclid(3 8) C2 1/16')).toThrow('Expected , between hits and steps');
+      expect(() => parseDSL('seq: euclid(3, 8) r 1/16')).toThrow('Expected note or chord after euclid(3, 8)');
+      expect(() => parseDSL('seq: euclid(3, 8) C2 1/16~1/16')).toThrow('Euclidean hits cannot be tied');
+    });
+  });
+
+  describe('step strings', () => {
+    it('should parse the pitch, step, pattern and options', () => {
+      const ast = parseDSL('seq: steps C2 1/16 "x..X | -.x." vel=0.6 accent=0.9 p=0.8');
+      expect(ast.sequence!.items[0]).toEqual({
+        type: 'steps',
+        pitch: 'C2',
+        step: '1/16',
+        pattern: 'x..X-.x.',
+        velocity: 0.6,
+        accent: 0.9,
+        probability: 0.8,
+        line: 1,
+        column: 6,
+      });
+    });
+
+    it('should leave the step length to the grid when omitted', () => {
+      const ast = parseDSL('seq: steps C2 "x.x."');
+      expect(ast.sequence!.items[0]).toMatchObject({ type: 'steps', pattern: 'x.x.' });
+      expect((ast.sequence!.items[0] as any).step).toBeUndefined();
+    });
+
+    it('should throw on invalid step patterns', () => {
+      expect(() => parseDSL('seq: steps C2 1/16 "x.o."')).toThrow("Invalid step 'o'. Use x (hit), X (accent), . (rest) or - (tie) at line 1, column 23");
+      expect(() => parseDSL('seq: steps C2 1/16 "-x.."')).toThrow('A step pattern cannot start with a tie');
+      expect(() => parseDSL('seq: steps C2 1/16 " | "')).toThrow('Empty step pattern');
+      expect(() => parseDSL('seq: steps C2 1/16')).toThrow('Expected step pattern in quotes');
+      expect(() => parseDSL('seq: steps 1/16 "x..."')).toThrow('Expected pitch after steps');
+    });
+  });
+
+  describe('articulations', () => {
+    it('should parse articulation words and marks on notes, chords and choices', () => {
+      const ast = parseDSL('seq: C4 1/4 stacc, D4 1/4 . > vel=0.5, [C4 E4] 1/2 legato inv=1, <C4 D4> 1/8 ten');
+      const items = ast.sequence!.items;
+      expect(items[0]).toMatchObject({ articulations: ['staccato'] });
+      expect(items[1]).toMatchObject({ articulations: ['staccato', 'accent'], velocity: 0.5 });
+      expect(items[2]).toMatchObject({ type: 'chord', articulations: ['legato'], voicing: { inversion: 1 } });
+      expect(items[3]).toMatchObject({ type: 'choice', articulations: ['tenuto'] });
+    });
+
+    it('should leave notes without marks unchanged', () => {
+      const ast = parseDSL('seq: C4 1/4., D4 1/4');
+      expect(ast.sequence!.items[0]).not.toHaveProperty('articulations');
+      expect(ast.sequence!.items).toHaveLength(2);
+    });
+  });
+
+  describe('gate', () => {
+    it('should parse the gate directive and gate= on instruments, tracks and notes', () => {
+      const ast = parseDSL([
+        'gate 0.9',
+        'inst bass square gate=0.5 gain=0.4',
+        'track a inst=bass gate=0.25: C4 1/4 gate=0.75, [C4 E4] 1/4 stacc gate=1, steps C2 "x-.." gate=0.5',
+        'gate 0.8',
+      ].join('\n'));
+      expect(ast.globalSettings.gate).toBe(0.8);
+      expect(ast.instruments[0]).toMatchObject({ gate: 0.5, gain: 0.4 });
+      expect(ast.tracks[0].gate).toBe(0.25);
+      expect(ast.tracks[0].items[0]).toMatchObject({ type: 'note', gate: 0.75 });
+      expect(ast.tracks[0].items[1]).toMatchObject({ type: 'chord', gate: 1, articulations: ['staccato'] });
+      expect(ast.tracks[0].items[2]).toMatchObject({ type: 'steps', gate: 0.5 });
+    });
+
+    it('should throw on gates outside (0, 1]', () => {
+      expect(() => parseDSL('gate 0')).toThrow('Invalid gate value: 0. Must be greater than 0 and at most 1 at line 1, column 6');
+      expect(() => parseDSL('seq: C4 1/4 gate=1.5')).toThrow('Invalid gate value: 1.5');
+    });
+  });
+
+  describe('nudge and humanize', () => {
+    it('should parse nudges in milliseconds and as durations', () => {
+      const ast = parseDSL('seq: C4 1/8 nudge=+8ms, D4 1/8 vel=0.5 nudge=-1/64, [C4 E4] 1/4 nudge=3ms');
+      expect(ast.sequence!.items[0]).toMatchObject({ nudge: { value: 8, unit: 'ms' } });
+      expect(ast.sequence!.items[1]).toMatchObject({ nudge: { value: -1 / 64, unit: 'duration' }, velocity: 0.5 });
+      expect(ast.sequence!.items[2]).toMatchObject({ type: 'chord', nudge: { value: 3, unit: 'ms' } });
+    });
+
+    it('should parse humanize at global and track level', () => {
+      const ast = parseDSL('humanize time=10 vel=0.05\ninst keys sine\ntrack a inst=keys humanize vel=0.1: C4 1/4\ntime 3/4');
+      expect(ast.globalSettings.humanize).toEqual({ time: 10, velocity: 0.05 });
+      expect(ast.tracks[0].humanize).toEqual({ time: 0, velocity: 0.1 });
+      expect(ast.globalSettings.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+      expect(parseDSL('humanize time=4.5ms').globalSettings.humanize).toEqual({ time: 4.5, velocity: 0 });
+    });
+
+    it('should throw on invalid nudges and humanize settings', () => {
+      expect(() => parseDSL('seq: C4 1/8 nudge=8')).toThrow('Expected nudge in milliseconds or as a duration');
+      expect(() => parseDSL('humanize')).toThrow('Expected time=<ms> or vel=<amount> after humanize at line 1, column 1');
+      expect(() => parseDSL('humanize vel=2')).toThrow('Invalid humanize vel: 2. Must be between 0 and 1');
+      expect(() => parseDSL('humanize time=-5')).toThrow('Invalid humanize time: -5. Must be >= 0');
+    });
+  });
+
+  describe('tuning', () => {
+    it('should parse a reference frequency and equal divisions', () => {
+      const a4 = parseDSL('tuning a4=432\nbpm 90').globalSettings.tuning!;
+      expect(a4.scale.description).toBe('12-EDO');
+      expect(a4.mapping).toMatchObject({ referenceNote: 69, referenceFrequency: 432, size: 0 });
+
+      const edo = parseDSL('tuning edo=19 A4=415').globalSettings.tuning!;
+      expect(edo.scale.ratios).toHaveLength(19);
+      expect(edo.mapping.referenceFrequency).toBe(415);
+    });
+
+    it('should parse Scala scale and keyboard mapping text', () => {
+      const source = 'tuning scl="""\n! fifths\nFifths\n2\n3/2\n2/1\n""" kbm="""\n0\n0\n127\n60\n60\n261.63\n0\n"""\nseq: C4 1/4';
+      const ast = parseDSL(source);
+      expect(ast.globalSettings.tuning!.scale).toEqual({ description: 'Fifths', ratios: [1.5, 2] });
+      expect(ast.globalSettings.tuning!.mapping).toMatchObject({ referenceNote: 60, referenceFrequency: 261.63 });
+      expect(ast.sequence!.items).toHaveLength(1);
+    });
+
+    it('should throw on invalid tunings', () => {
+      expect(() => parseDSL('tuning')).toThrow('Expected a4=<Hz>, edo=<n>, scl=<text> or kbm=<text> after tuning at line 1, column 1');
+      expect(() => parseDSL('tuning a4=0')).toThrow('Invalid tuning a4: 0. Must be greater than 0 at line 1, column 11');
+      expect(() => parseDSL('tuning edo=7.5')).toThrow('Invalid tuning edo: 7.5. Must be a positive integer');
+      expect(() => parseDSL('tuning scl=12')).toThrow('Expected a string with the .scl text after scl=');
+      expect(() => parseDSL('tuning edo=19 scl="x"')).toThrow('Invalid Scala scale: missing number of notes at line 1, column 19');
+      expect(() => parseDSL('tuning edo=19 scl="""\nX\n1\n2\n"""')).toThrow('Use either edo= or scl= in a tuning, not both');
+      expect(() => parseDSL('tuning a4=432 kbm="""\n0\n0\n127\n60\n69\n440\n0\n"""')).toThrow(
+        'Use either a4= or kbm= in a tuning, not both'
+      );
+    });
+  });
+
+  describe('sections and song', () => {
+    const source = `
+inst lead sine
+inst bass square
+track pad inst=lead: C3 1/1
+section verse:
+  track lead inst=lead: C4 1/4, E4 1/4
+  track bass inst=bass: C2 1/2
+section chorus:
+  track lead inst=lead: G4 1/2
+track drums inst=bass: C1 1/4
+song: verse x2, chorus,
+  verse
+`;
+
+    it('should parse sections with their indented tracks', () => {
+      const ast = parseDSL(source);
+      expect(ast.sections.map(section => [section.name, section.tracks.map(track => track.name)])).toEqual([
+        ['verse', ['lead', 'bass']],
+        ['chorus', ['lead']],
+      ]);
+      expect(ast.sections[0]).toMatchObject({ type: 'section', line: 5, column: 1 });
+      expect(ast.tracks.map(track => track.name)).toEqual(['pad', 'drums']);
+    });
+
+    it('should parse the song order with repetitions', () => {
+      const ast = parseDSL(source);
+      expect(ast.song!.entries).toEqual([
+        { section: 'verse', repetitions: 2, line: 11, column: 7 },
+        { section: 'chorus', repetitions: 1, line: 11, column: 17 },
+        { section: 'verse', repetitions: 1, line: 12, column: 3 },
+      ]);
+    });
+
+    it('should default to no sections and no song', () => {
+      const ast = parseDSL('seq: C4 1/4');
+      expect(ast.sections).toEqual([]);
+      expect(ast.song).toBeNull();
+    });
+
+    it('should throw on invalid sections and songs', () => {
+      expect(() => parseDSL('section a:\ntrack x inst=y: C4 1/4')).toThrow(
+        "Section 'a' has no tracks. Indent its track definitions under the section at line 1, column 1"
+      );
+      expect(() => parseDSL('section a:\n  track x inst=y: C4 1/4\nsection a:\n  track x inst=y: C4 1/4')).toThrow(
+        "Duplicate section 'a' at line 3, column 1"
+      );
+      expect(() => parseDSL('section a:\n  track x inst=y: C4 1/4\nsong: a, b')).toThrow(
+        "Unknown section 'b' in song. Defined sections: a at line 3, column 10"
+      );
+      expect(() => parseDSL('song: a')).toThrow("Unknown section 'a' in song. No sections defined");
+      expect(() => parseDSL('song:')).toThrow('Expected section name in song at line 1, column 1');
+      expect(() => parseDSL('section a:\n  track x inst=y: C4 1/4\nsong: a x0')).toThrow('Invalid repetition count: x0');
+      expect(() => parseDSL('section a:\n  track x inst=y: C4 1/4\nsong: a\nsong: a')).toThrow('Duplicate song line');
+    });
+  });
+
+  describe('names', () => {
+    it('should accept keywords and note-like words as instrument, pattern and track names', () => {
+      const ast = parseDSL(
+        'inst key sine\npattern m1: C4 1/4\npattern gate: E4 1/4\ntrack song inst=key: use m1, use gate x2\ntrack time inst=key: C4 1/4'
+      );
+      expect(ast.instruments.map(inst => inst.name)).toEqual(['key']);
+      expect(ast.patterns.map(pattern => pattern.name)).toEqual(['m1', 'gate']);
+      expect(ast.tracks.map(track => [track.name, track.instrumentName])).toEqual([['song', 'key'], ['time', 'key']]);
+      expect(ast.tracks[0].items).toMatchObject([{ type: 'patternUse', name: 'm1' }, { type: 'patternUse', name: 'gate', repetitions: 2 }]);
+    });
+
+    it('should still throw when the name is missing', () => {
+      expect(() => parseDSL('track 1/4 inst=a: C4 1/4')).toThrow('Expected track name after track at line 1, column 7');
+    });
+  });
+
+  describe('track loop', () => {
+    it('should parse a track cycle length in whole notes', () => {
+      const ast = parseDSL('inst hat sine\ntrack hats inst=hat gate=0.5 loop=3/4: C4 1/4, C4 1/4, C4 1/4');
+      expect(ast.tracks[0].loop).toBe(0.75);
+      expect(ast.tracks[0].gate).toBe(0.5);
+      expect(ast.tracks[0].items).toHaveLength(3);
+      expect(parseDSL('track x inst=y: C4 1/4').tracks[0].loop).toBeUndefined();
+    });
+
+    it('should throw on invalid track loops', () => {
+      expect(() => parseDSL('track x inst=y loop: C4 1/4')).toThrow('Expected = after loop at line 1, column 20');
+      expect(() => parseDSL('track x inst=y loop=3: C4 1/4')).toThrow('Expected duration after loop= (e.g., loop=3/4) at line 1, column 21');
+      expect(() => parseDSL('section a:\n  track x inst=y loop=1/2: C4 1/4')).toThrow(
+        "Track 'x' in section 'a' cannot set loop=. Track loops only apply to top-level tracks at line 2, column 3"
+      );
+    });
+  });
+
+  describe('let constants', () => {
+    it('should evaluate number, duration and pitch constants', () => {
+      const ast = parseDSL('let accent = 0.95\nlet len = 1/8\nlet root = E2\nlet fifth = root + 7');
+      expect(ast.constants.map(c => [c.name, c.value.type, c.value.value, c.offset])).toEqual([
+        ['accent', 'number', '0.95', undefined],
+        ['len', 'duration', '1/8', undefined],
+        ['root', 'pitch', 'E2', undefined],
+        ['fifth', 'pitch', 'E2', 7],
+      ]);
+    });
+
+    it('should substitute numbers and durations with arithmetic', () => {
+      const ast = parseDSL(`
+        let accent = 0.95
+        let len = 1/8
+        seq: C4 len vel=accent - 0.2, r len * 3, D4 (len + 1/16) / 2 vel=accent
+      `);
+      expect(ast.sequence!.items[0]).toMatchObject({ pitch: 'C4', duration: '1/8' });
+      expect((ast.sequence!.items[0] as any).velocity).toBeCloseTo(0.75, 10);
+      expect(ast.sequence!.items[1]).toMatchObject({ type: 'rest', duration: '3/8' });
+      expect(ast.sequence!.items[2]).toMatchObject({ duration: '3/32', velocity: 0.95 });
+    });
+
+    it('should refer to pitch constants by name with an interval', () => {
+      const ast = parseDSL('let root = E2\nseq: root 1/4, root + 7 1/4, [root root+4] 1/2');
+      expect(ast.sequence!.items[0]).toMatchObject({ pitch: { type: 'param', name: 'root' } });
+      expect(ast.sequence!.items[1]).toMatchObject({ pitch: { name: 'root', offset: 7 } });
+      expect((ast.sequence!.items[2] as any).pitches[1]).toMatchObject({ name: 'root', offset: 4 });
+    });
+
+    it('should accept constants in directives, instruments, tempo changes and pattern arguments', () => {
+      const ast = parseDSL(`
+        let speed = 96
+        let soft = 0.3
+        bpm speed + 4
+        swing soft / 2
+        inst pad sine gain=soft attack=soft * 2
+        pattern p(v): C4 1/4 vel=v
+        seq: tempo speed * 2, use p(soft)
+      `);
+      expect(ast.bpm.value).toBe(100);
+      expect(ast.globalSettings.swing).toBeCloseTo(0.15, 10);
+      expect(ast.instruments[0]).toMatchObject({ gain: 0.3, adsr: { attack: 0.6 } });
+      expect(ast.sequence!.items[0]).toMatchObject({ type: 'tempo', bpm: 192 });
+      expect(ast.sequence!.items[1]).toMatchObject({ args: [{ type: 'number', value: '0.3' }] });
+    });
+
+    it('should let pattern parameters hide constants', () => {
+      const ast = parseDSL('let root = E2\npattern p(root): root 1/4\nseq: use p(C4)');
+      expect(ast.patterns[0].items[0]).toMatchObject({ pitch: { type: 'param', name: 'root' } });
+    });
+
+    it('should throw on undefined and duplicate constants', () => {
+      expect(() => parseDSL('seq: C4 1/4 vel=accent')).toThrow("Undefined constant 'accent' at line 1, column 17");
+      expect(() => parseDSL('let a = 1\nlet a = 2')).toThrow("Duplicate constant 'a'");
+      expect(() => parseDSL('let b = missing + 1')).toThrow("Undefined constant 'missing'");
+    });
+
+    it('should throw on values of the wrong type', () => {
+      expect(() => parseDSL('let root = C4\nseq: C4 1/4 vel=root')).toThrow('Expected a number, got a pitch');
+      expect(() => parseDSL('let v = 0.5\nseq: C4 v')).toThrow('Expected a duration, got a number');
+      expect(() => parseDSL('let root = C4\nlet x = root + root')).toThrow("Cannot apply '+' to pitch and pitch");
+      expect(() => parseDSL('let root = C4\nlet x = root + 0.5')).toThrow('Pitch intervals must be whole semitones');
+      expect(() => parseDSL('let len = 1/4\nlet x = len - 1/2')).toThrow('must leave a positive duration');
+    });
+  });
+
   describe('inst directive', () => {
     it('should parse inst directive with sine', () => {
       const ast = parseDSL('inst lead sine');
@@ -379,7 +379,7 @@ describe('Phase 7: Extended DSL Features', () => {
     it('should throw on velocity out of range', () => {
       expect(() => parseDSL('seq: C4 1/4 vel=1.5')).toThrow(ParseError);
       expect(() => parseDSL('seq: C4 1/4 vel=1.5')).toThrow('Must be between 0 and 1');
-      // Negative numbers cause tokenizer error as '-' is not a valid token start
+      // Negative numbers are rejected: a velocity cannot start with '-'
       expect(() => parseDSL('seq: C4 1/4 vel=-0.1')).toThrow();
     });
 
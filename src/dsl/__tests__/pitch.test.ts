@@ -1,5 +1,19 @@
 import { describe, it, expect } from 'vitest';
-import { parsePitch, pitchToMidi, midiToFrequency, pitchToFrequency } from '../pitch';
+import {
+  parsePitch,
+  pitchToMidi,
+  midiToFrequency,
+  frequencyToMidi,
+  pitchToFrequency,
+  createKeySignature,
+  applyKeySignature,
+  parseScala,
+  parseKeyboardMapping,
+  equalTemperament,
+  linearMapping,
+  createTuning,
+  tunedFrequency,
+} from '../pitch';
 import type { Pitch } from '../pitch';
 
 describe('parsePitch', () => {
@@ -23,6 +37,12 @@ describe('parsePitch', () => {
     expect(pitch).toEqual({ noteName: 'B', accidental: 'b', octave: 2 });
   });
 
+  it('should parse natural sign En4', () => {
+    const pitch = parsePitch('En4');
+    expect(pitch).toEqual({ noteName: 'E', accidental: 'n', octave: 4 });
+    expect(pitchToMidi(pitch)).toBe(64);
+  });
+
   it('should parse lowercase note names', () => {
     const pitch = parsePitch('c4');
     expect(pitch).toEqual({ noteName: 'C', accidental: '', octave: 4 });
@@ -84,6 +104,32 @@ describe('parsePitch', () => {
   it('should throw on octave out of range (too high)', () => {
     expect(() => parsePitch('C10')).toThrow('Invalid pitch: octave 10 out of range');
   });
+
+  it('should parse double sharp C##4 and double flat Dbb4', () => {
+    expect(parsePitch('C##4')).toEqual({ noteName: 'C', accidental: '##', octave: 4 });
+    expect(parsePitch('Dbb4')).toEqual({ noteName: 'D', accidental: 'bb', octave: 4 });
+  });
+
+  it('should parse MIDI note numbers spelled with sharps', () => {
+    expect(parsePitch('m60')).toEqual({ noteName: 'C', accidental: 'n', octave: 4 });
+    expect(parsePitch('m61')).toEqual({ noteName: 'C', accidental: '#', octave: 4 });
+    expect(parsePitch('m0')).toEqual({ noteName: 'C', accidental: 'n', octave: -1 });
+    expect(parsePitch('m127')).toEqual({ noteName: 'G', accidental: 'n', octave: 9 });
+  });
+
+  it('should throw on MIDI note numbers above 127', () => {
+    expect(() => parsePitch('m128')).toThrow('Invalid pitch: MIDI note 128 out of range (0-127)');
+  });
+
+  it('should parse cent offsets', () => {
+    expect(parsePitch('A4+15c')).toEqual({ noteName: 'A', accidental: '', octave: 4, cents: 15 });
+    expect(parsePitch('Bb3-20.5c')).toEqual({ noteName: 'B', accidental: 'b', octave: 3, cents: -20.5 });
+    expect(parsePitch('m60+50c')).toEqual({ noteName: 'C', accidental: 'n', octave: 4, cents: 50 });
+  });
+
+  it('should throw on cent offsets beyond a semitone', () => {
+    expect(() => parsePitch('A4+150c')).toThrow('Invalid pitch: 150 cents out of range (-100 to 100)');
+  });
 });
 
 describe('pitchToMidi', () => {
@@ -141,6 +187,22 @@ describe('pitchToMidi', () => {
     const pitch: Pitch = { noteName: 'B', accidental: '', octave: 4 };
     expect(pitchToMidi(pitch)).toBe(71);
   });
+
+  it('should convert double accidentals', () => {
+    expect(pitchToMidi(parsePitch('C##4'))).toBe(62);
+    expect(pitchToMidi(parsePitch('Dbb4'))).toBe(60);
+    expect(pitchToMidi(parsePitch('B#3'))).toBe(60);
+  });
+
+  it('should round-trip MIDI note numbers', () => {
+    for (const midi of [0, 11, 60, 61, 70, 127]) {
+      expect(pitchToMidi(parsePitch(`m${midi}`))).toBe(midi);
+    }
+  });
+
+  it('should ignore cents (nearest semitone)', () => {
+    expect(pitchToMidi(parsePitch('A4+15c'))).toBe(69);
+  });
 });
 
 describe('midiToFrequency', () => {
@@ -170,6 +232,18 @@ describe('midiToFrequency', () => {
     const freq = midiToFrequency(72);
     expect(freq).toBeCloseTo(523.25, 1);
   });
+
+  it('should detune by fractional MIDI numbers', () => {
+    expect(midiToFrequency(69.5)).toBeCloseTo(452.89, 2);
+  });
+});
+
+describe('frequencyToMidi', () => {
+  it('should invert midiToFrequency', () => {
+    expect(frequencyToMidi(440)).toBe(69);
+    expect(frequencyToMidi(220)).toBeCloseTo(57, 10);
+    expect(frequencyToMidi(midiToFrequency(60.15))).toBeCloseTo(60.15, 10);
+  });
 });
 
 describe('pitchToFrequency', () => {
@@ -190,6 +264,12 @@ describe('pitchToFrequency', () => {
     // Bb2 = MIDI 46, frequency should be ~116.54 Hz
     expect(pitchToFrequency('Bb2')).toBeCloseTo(116.54, 1);
   });
+
+  it('should include cent offsets', () => {
+    // 100 cents is a semitone
+    expect(pitchToFrequency('A4+100c')).toBeCloseTo(pitchToFrequency('A#4'), 10);
+    expect(pitchToFrequency('A4-15c')).toBeCloseTo(440 * Math.pow(2, -15 / 1200), 10);
+  });
 });
 
 describe('integration: parsePitch -> pitchToMidi', () => {
@@ -217,3 +297,207 @@ describe('integration: parsePitch -> pitchToMidi', () => {
     expect(pitchToMidi(parsePitch('Eb3'))).toBe(51);
   });
 });
+
+describe('createKeySignature', () => {
+  it('should have no accidentals for C major and A minor', () => {
+    expect(createKeySignature('C', 'major').accidentals).toEqual({});
+    expect(createKeySignature('A', 'minor').accidentals).toEqual({});
+  });
+
+  it('should spell flat keys with flats', () => {
+    expect(createKeySignature('Eb', 'major').accidentals).toEqual({ E: 'b', A: 'b', B: 'b' });
+    expect(createKeySignature('F', 'minor').accidentals).toEqual({ A: 'b', B: 'b', D: 'b', E: 'b' });
+  });
+
+  it('should spell sharp keys with sharps', () => {
+    expect(createKeySignature('E', 'major').accidentals).toEqual({ F: '#', G: '#', C: '#', D: '#' });
+  });
+
+  it('should support church modes', () => {
+    expect(createKeySignature('D', 'dorian').accidentals).toEqual({});
+    expect(createKeySignature('F', 'lydian').accidentals).toEqual({});
+    expect(createKeySignature('G', 'mixolydian').accidentals).toEqual({});
+    expect(createKeySignature('E', 'phrygian').accidentals).toEqual({});
+  });
+
+  it('should normalize tonic and mode case', () => {
+    const key = createKeySignature('bb', 'Major');
+    expect(key.tonic).toBe('Bb');
+    expect(key.mode).toBe('major');
+  });
+
+  it('should throw on unknown tonic or mode', () => {
+    expect(() => createKeySignature('H', 'major')).toThrow('unknown tonic');
+    expect(() => createKeySignature('C', 'blues')).toThrow('unknown mode');
+  });
+
+  it('should throw on keys that need double accidentals', () => {
+    expect(() => createKeySignature('G#', 'major')).toThrow('needs double accidentals');
+  });
+});
+
+describe('applyKeySignature', () => {
+  const key = createKeySignature('Bb', 'major');
+
+  it('should add the key accidental to plain notes', () => {
+    expect(pitchToMidi(applyKeySignature(parsePitch('B3'), key))).toBe(58);
+    expect(pitchToMidi(applyKeySignature(parsePitch('E4'), key))).toBe(63);
+  });
+
+  it('should leave notes outside the signature alone', () => {
+    expect(pitchToMidi(applyKeySignature(parsePitch('C4'), key))).toBe(60);
+  });
+
+  it('should keep explicit accidentals and naturals', () => {
+    expect(pitchToMidi(applyKeySignature(parsePitch('En4'), key))).toBe(64);
+    expect(pitchToMidi(applyKeySignature(parsePitch('B#3'), key))).toBe(60);
+  });
+
+  it('should return the pitch unchanged without a key', () => {
+    const pitch = parsePitch('E4');
+    expect(applyKeySignature(pitch, undefined)).toBe(pitch);
+  });
+});
+
+const JUST_MAJOR_SCL = `! just.scl
+!
+Just major
+ 7
+!
+ 9/8
+ 5/4
+ 4/3
+ 701.955 pure fifth in cents
+ 5/3
+ 15/8
+ 2/1
+`;
+
+// Plays the scale on the white keys, A4 at 440 Hz
+const WHITE_KEYS_KBM = `! whitekeys.kbm
+12
+0
+127
+60
+69
+440.0
+7
+! degree of each key from C
+0
+x
+1
+x
+2
+3
+x
+4
+x
+5
+x
+6
+`;
+
+describe('parseScala', () => {
+  it('should parse ratios and cents, skipping comments', () => {
+    const scale = parseScala(JUST_MAJOR_SCL);
+    expect(scale.description).toBe('Just major');
+    expect(scale.ratios).toHaveLength(7);
+    expect(scale.ratios.slice(0, 3)).toEqual([9 / 8, 5 / 4, 4 / 3]);
+    expect(scale.ratios[3]).toBeCloseTo(1.5, 5);
+    expect(scale.ratios[6]).toBe(2);
+  });
+
+  it('should accept whole-number ratios and an empty description', () => {
+    expect(parseScala('\n1\n3\n')).toEqual({ description: '', ratios: [3] });
+  });
+
+  it('should throw on invalid scales', () => {
+    expect(() => parseScala('')).toThrow('Invalid Scala scale: missing number of notes');
+    expect(() => parseScala('Test\nfive\n')).toThrow('Invalid Scala scale: line 2: expected number of notes, got "five"');
+    expect(() => parseScala('Test\n2\n3/2\nabc\n')).toThrow('Invalid Scala scale: line 4: invalid pitch "abc"');
+    expect(() => parseScala('Test\n1\n3/0\n')).toThrow('Invalid Scala scale: line 3: invalid pitch "3/0"');
+    expect(() => parseScala('Test\n3\n3/2\n2/1\n')).toThrow('Invalid Scala scale: expected 3 notes, found 2');
+  });
+});
+
+describe('parseKeyboardMapping', () => {
+  it('should parse the header and the key degrees', () => {
+    expect(parseKeyboardMapping(WHITE_KEYS_KBM)).toEqual({
+      size: 12,
+      firstNote: 0,
+      lastNote: 127,
+      middleNote: 60,
+      referenceNote: 69,
+      referenceFrequency: 440,
+      octaveDegree: 7,
+      degrees: [0, null, 1, null, 2, 3, null, 4, null, 5, null, 6],
+    });
+  });
+
+  it('should leave keys without an entry unmapped', () => {
+    const mapping = parseKeyboardMapping('3\n0\n127\n60\n60\n261.6\n3\n0\n1\n');
+    expect(mapping.degrees).toEqual([0, 1, null]);
+  });
+
+  it('should throw on invalid mappings', () => {
+    expect(() => parseKeyboardMapping('12\n0\n127\n60\n')).toThrow('Invalid keyboard mapping: missing reference note');
+    expect(() => parseKeyboardMapping('12\n0\n127\n60\n69\nfast\n12\n')).toThrow(
+      'Invalid keyboard mapping: line 6: expected reference frequency, got "fast"'
+    );
+    expect(() => parseKeyboardMapping('0\n0\n200\n60\n69\n440\n0\n')).toThrow(
+      'Invalid keyboard mapping: last note 200 out of range (0-127)'
+    );
+  });
+});
+
+describe('tunedFrequency', () => {
+  it('should match midiToFrequency in 12-EDO at 440 Hz', () => {
+    const tuning = createTuning(equalTemperament(12), linearMapping());
+    for (const midi of [0, 21, 60, 69, 100, 127]) {
+      expect(tunedFrequency(midi, tuning)).toBeCloseTo(midiToFrequency(midi), 8);
+    }
+  });
+
+  it('should move the reference pitch', () => {
+    const tuning = createTuning(equalTemperament(12), linearMapping(432));
+    expect(tunedFrequency(69, tuning)).toBe(432);
+    expect(tunedFrequency(81, tuning)).toBeCloseTo(864, 8);
+  });
+
+  it('should step through equal divisions of the octave', () => {
+    const tuning = createTuning(equalTemperament(19), linearMapping());
+    expect(tunedFrequency(69, tuning)).toBeCloseTo(440, 8);
+    expect(tunedFrequency(70, tuning)).toBeCloseTo(440 * Math.pow(2, 1 / 19), 8);
+    expect(tunedFrequency(69 + 19, tuning)).toBeCloseTo(880, 8);
+  });
+
+  it('should keep a fractional MIDI number as a cent offset', () => {
+    const tuning = createTuning(equalTemperament(19), linearMapping());
+    expect(tunedFrequency(69.15, tuning)).toBeCloseTo(440 * Math.pow(2, 15 / 1200), 8);
+  });
+
+  it('should lay a Scala scale over the keys of a mapping', () => {
+    const tuning = createTuning(parseScala(JUST_MAJOR_SCL), parseKeyboardMapping(WHITE_KEYS_KBM));
+    // A4 is degree 5 (5/3) and sounds at 440 Hz, so C4 is 264 Hz
+    expect(tunedFrequency(69, tuning)).toBeCloseTo(440, 8);
+    expect(tunedFrequency(60, tuning)).toBeCloseTo(264, 8);
+    expect(tunedFrequency(64, tuning)).toBeCloseTo(330, 8);
+    expect(tunedFrequency(72, tuning)).toBeCloseTo(528, 8);
+    expect(tunedFrequency(59, tuning)).toBeCloseTo(264 * 15 / 16, 8);
+    expect(tunedFrequency(61, tuning)).toBeNull();
+  });
+
+  it('should repeat a scale without a mapping at its period', () => {
+    const tuning = createTuning(parseScala(JUST_MAJOR_SCL), linearMapping());
+    // Middle C is degree 0 and A4 (degree 9 = 2 * 5/4) sounds at 440 Hz
+    expect(tunedFrequency(60, tuning)).toBeCloseTo(176, 8);
+    expect(tunedFrequency(67, tuning)).toBeCloseTo(352, 8);
+  });
+
+  it('should reject a mapping whose reference note is unmapped', () => {
+    const mapping = parseKeyboardMapping(WHITE_KEYS_KBM.replace('\n69\n', '\n61\n'));
+    expect(() => createTuning(parseScala(JUST_MAJOR_SCL), mapping)).toThrow(
+      'Invalid keyboard mapping: reference note 61 is not mapped'
+    );
+  });
+});
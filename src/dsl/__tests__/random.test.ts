@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom, randomIndex, shuffle } from '../random';
+
+describe('createRandom', () => {
+  it('should return values in [0, 1)', () => {
+    const random = createRandom(42);
+    for (let i = 0; i < 100; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should repeat the same sequence for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+  });
+
+  it('should give different sequences for different seeds', () => {
+    expect(createRandom(1)()).not.toBe(createRandom(2)());
+  });
+});
+
+describe('randomIndex', () => {
+  it('should stay within the number of choices', () => {
+    const random = createRandom(3);
+    for (let i = 0; i < 50; i++) {
+      const index = randomIndex(random, 4);
+      expect(Number.isInteger(index)).toBe(true);
+      expect(index).toBeGreaterThanOrEqual(0);
+      expect(index).toBeLessThan(4);
+    }
+  });
+});
+
+describe('shuffle', () => {
+  it('should return a permutation without modifying the input', () => {
+    const items = [1, 2, 3, 4, 5, 6];
+    const shuffled = shuffle(createRandom(5), items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+    expect([...shuffled].sort()).toEqual(items);
+  });
+
+  it('should give the same order for the same seed', () => {
+    const items = ['a', 'b', 'c', 'd', 'e'];
+    expect(shuffle(createRandom(9), items)).toEqual(shuffle(createRandom(9), items));
+  });
+});
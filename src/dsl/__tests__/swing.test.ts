@@ -151,6 +151,31 @@ describe('applySwing', () => {
     });
   });
 
+  describe('with time signatures', () => {
+    it('should behave like 4/4 when the bar holds an even number of subdivisions', () => {
+      const events = [createEvent(0.125), createEvent(2.125)];
+      const result = applySwing(events, 0.5, grid, bpm, { numerator: 4, denominator: 4 });
+      expect(result[0].t).toBeCloseTo(0.1875, 5);
+      expect(result[1].t).toBeCloseTo(2.1875, 5);
+    });
+
+    it('should restart the off-beat count at each bar in 3/8', () => {
+      // 3/8 at 120 BPM on an 8th grid: subdivision = 0.25s, bar = 0.75s
+      const threeEight = { numerator: 3, denominator: 8 };
+      const events = [
+        createEvent(0.25),  // bar 1, index 1 - off-beat
+        createEvent(0.75),  // bar 2, index 0 - on-beat (index 3 without bars)
+        createEvent(1.0),   // bar 2, index 1 - off-beat
+      ];
+
+      const result = applySwing(events, 0.5, 8, bpm, threeEight);
+
+      expect(result[0].t).toBeCloseTo(0.375, 5);
+      expect(result[1].t).toBeCloseTo(0.75, 5);
+      expect(result[2].t).toBeCloseTo(1.125, 5);
+    });
+  });
+
   describe('with different BPM values', () => {
     it('should work with BPM = 60', () => {
       // BPM = 60 => quarter note = 1.0s
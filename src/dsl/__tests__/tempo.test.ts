@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTempoMap,
+  positionToSeconds,
+  secondsToPosition,
+  bpmAtPosition,
+  hasTempoChanges,
+} from '../tempo';
+
+describe('createTempoMap', () => {
+  it('should create a single constant segment without markers', () => {
+    const map = createTempoMap(120);
+    expect(map.segments).toHaveLength(1);
+    expect(hasTempoChanges(map)).toBe(false);
+  });
+
+  it('should throw on non-positive base tempo', () => {
+    expect(() => createTempoMap(0)).toThrow('Invalid BPM');
+  });
+
+  it('should replace the base tempo with a marker at position 0', () => {
+    const map = createTempoMap(120, [{ position: 0, bpm: 60 }]);
+    expect(map.segments).toHaveLength(1);
+    expect(bpmAtPosition(map, 0)).toBe(60);
+  });
+
+  it('should let the last marker win at the same position', () => {
+    const map = createTempoMap(120, [
+      { position: 1, bpm: 90 },
+      { position: 1, bpm: 150 },
+    ]);
+    expect(bpmAtPosition(map, 1)).toBe(150);
+  });
+
+  it('should sort markers by position', () => {
+    const map = createTempoMap(120, [
+      { position: 2, bpm: 60 },
+      { position: 1, bpm: 90 },
+    ]);
+    expect(bpmAtPosition(map, 1.5)).toBe(90);
+    expect(bpmAtPosition(map, 2.5)).toBe(60);
+  });
+});
+
+describe('positionToSeconds', () => {
+  it('should match the fixed-tempo formula for a constant tempo', () => {
+    // At 120 BPM a whole note = 2 seconds
+    const map = createTempoMap(120);
+    expect(positionToSeconds(map, 0)).toBe(0);
+    expect(positionToSeconds(map, 0.25)).toBeCloseTo(0.5, 10);
+    expect(positionToSeconds(map, 3)).toBeCloseTo(6, 10);
+  });
+
+  it('should switch tempo at a marker', () => {
+    // 1 whole note at 120 (2s), then 60 BPM (4s per whole note)
+    const map = createTempoMap(120, [{ position: 1, bpm: 60 }]);
+    expect(positionToSeconds(map, 1)).toBeCloseTo(2, 10);
+    expect(positionToSeconds(map, 1.5)).toBeCloseTo(4, 10);
+  });
+
+  it('should integrate a linear ramp', () => {
+    // Ramp 120 -> 60 over 1 whole note: t = 240 / slope * ln(b1 / b0)
+    const map = createTempoMap(120, [{ position: 0, bpm: 60, rampLength: 1 }]);
+    const expected = (240 / -60) * Math.log(60 / 120);
+    expect(positionToSeconds(map, 1)).toBeCloseTo(expected, 10);
+    // Ramp sits between the two constant tempos
+    expect(positionToSeconds(map, 1)).toBeGreaterThan(2);
+    expect(positionToSeconds(map, 1)).toBeLessThan(4);
+  });
+
+  it('should hold the target tempo after a ramp', () => {
+    const map = createTempoMap(120, [{ position: 0, bpm: 60, rampLength: 1 }]);
+    const rampEnd = positionToSeconds(map, 1);
+    expect(positionToSeconds(map, 2) - rampEnd).toBeCloseTo(4, 10);
+  });
+
+  it('should cut a ramp short when a marker lands inside it', () => {
+    const map = createTempoMap(120, [
+      { position: 0, bpm: 60, rampLength: 2 },
+      { position: 1, bpm: 100 },
+    ]);
+    // Halfway through the ramp the tempo has reached 90
+    expect(map.segments[0].endBpm).toBeCloseTo(90, 10);
+    expect(bpmAtPosition(map, 1.5)).toBe(100);
+  });
+});
+
+describe('secondsToPosition', () => {
+  it('should invert positionToSeconds across changes and ramps', () => {
+    const map = createTempoMap(100, [
+      { position: 0.5, bpm: 140, rampLength: 1 },
+      { position: 2, bpm: 70 },
+    ]);
+    for (const position of [0, 0.25, 0.5, 0.9, 1.5, 2, 3.75]) {
+      const seconds = positionToSeconds(map, position);
+      expect(secondsToPosition(map, seconds)).toBeCloseTo(position, 9);
+    }
+  });
+});
+
+describe('bpmAtPosition', () => {
+  it('should interpolate linearly inside a ramp', () => {
+    const map = createTempoMap(80, [{ position: 1, bpm: 160, rampLength: 2 }]);
+    expect(bpmAtPosition(map, 0.5)).toBe(80);
+    expect(bpmAtPosition(map, 2)).toBeCloseTo(120, 10);
+    expect(bpmAtPosition(map, 4)).toBe(160);
+  });
+});
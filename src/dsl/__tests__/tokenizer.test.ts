@@ -20,6 +20,19 @@ describe('tokenize', () => {
       expect(tokens[0]).toEqual({ type: TokenType.SEQ, value: 'seq', line: 1, column: 1 });
     });
 
+    it('should tokenize time keyword', () => {
+      const tokens = tokenize('time 3/4');
+      expect(tokens[0]).toEqual({ type: TokenType.TIME, value: 'time', line: 1, column: 1 });
+      expect(tokens[1].type).toBe(TokenType.DURATION);
+    });
+
+    it('should tokenize key keyword with a sharp tonic', () => {
+      const tokens = tokenize('key F# dorian');
+      expect(tokens[0]).toEqual({ type: TokenType.KEY, value: 'key', line: 1, column: 1 });
+      expect(tokens[1]).toEqual({ type: TokenType.PITCH_CLASS, value: 'F#', line: 1, column: 5 });
+      expect(tokens[2].type).toBe(TokenType.IDENTIFIER);
+    });
+
     it('should tokenize keywords case-insensitively', () => {
       const tokens = tokenize('BPM INST SEQ');
       expect(tokens[0].type).toBe(TokenType.BPM);
@@ -44,6 +57,32 @@ describe('tokenize', () => {
       expect(tokens[0]).toEqual({ type: TokenType.NOTE, value: 'Bb2', line: 1, column: 1 });
     });
 
+    it('should tokenize note with natural sign En4', () => {
+      const tokens = tokenize('En4');
+      expect(tokens[0]).toEqual({ type: TokenType.NOTE, value: 'En4', line: 1, column: 1 });
+    });
+
+    it('should tokenize double accidentals and MIDI note numbers', () => {
+      const tokens = tokenize('C##4 Dbb4 m60');
+      expect(tokens.slice(0, 3).map(t => [t.type, t.value])).toEqual([
+        [TokenType.NOTE, 'C##4'],
+        [TokenType.NOTE, 'Dbb4'],
+        [TokenType.NOTE, 'm60'],
+      ]);
+    });
+
+    it('should keep a cent offset with its note', () => {
+      const tokens = tokenize('A4+15c m60-20.5c 1/4');
+      expect(tokens[0]).toEqual({ type: TokenType.NOTE, value: 'A4+15c', line: 1, column: 1 });
+      expect(tokens[1]).toEqual({ type: TokenType.NOTE, value: 'm60-20.5c', line: 1, column: 8 });
+      expect(tokens[2]).toEqual({ type: TokenType.DURATION, value: '1/4', line: 1, column: 18 });
+    });
+
+    it('should not read a signed number after a note as cents', () => {
+      const tokens = tokenize('C4+7');
+      expect(tokens.slice(0, 3).map(t => t.type)).toEqual([TokenType.NOTE, TokenType.PLUS, TokenType.NUMBER]);
+    });
+
     it('should tokenize lowercase note', () => {
       const tokens = tokenize('c4');
       expect(tokens[0]).toEqual({ type: TokenType.NOTE, value: 'c4', line: 1, column: 1 });
@@ -60,6 +99,226 @@ describe('tokenize', () => {
     });
   });
 
+  describe('chord symbols', () => {
+    it('should tokenize slash chords and sharp roots as chord symbols', () => {
+      const tokens = tokenize('Am/C F#m7');
+      expect(tokens[0]).toEqual({ type: TokenType.CHORD_SYMBOL, value: 'Am/C', line: 1, column: 1 });
+      expect(tokens[1]).toEqual({ type: TokenType.CHORD_SYMBOL, value: 'F#m7', line: 1, column: 6 });
+    });
+
+    it('should tokenize 11th and 13th chords as chord symbols rather than notes', () => {
+      expect(tokenize('C11 Bb13 C9').map(t => t.type)).toEqual([
+        TokenType.CHORD_SYMBOL,
+        TokenType.CHORD_SYMBOL,
+        TokenType.NOTE,
+        TokenType.EOF,
+      ]);
+    });
+
+    it('should tokenize a chord symbol octave as colon and number', () => {
+      const tokens = tokenize('Cmaj7:4');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.IDENTIFIER,
+        TokenType.COLON,
+        TokenType.NUMBER,
+        TokenType.EOF,
+      ]);
+    });
+  });
+
+  describe('signs', () => {
+    it('should tokenize plus and minus signs', () => {
+      const tokens = tokenize('+5 -12');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.PLUS,
+        TokenType.NUMBER,
+        TokenType.MINUS,
+        TokenType.NUMBER,
+        TokenType.EOF,
+      ]);
+    });
+  });
+
+  describe('seed keyword', () => {
+    it('should tokenize seed as a keyword in directives and options', () => {
+      const tokens = tokenize('seed 42 shuffle seed=3');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.SEED,
+        TokenType.NUMBER,
+        TokenType.IDENTIFIER,
+        TokenType.SEED,
+        TokenType.EQUALS,
+        TokenType.NUMBER,
+        TokenType.EOF,
+      ]);
+    });
+  });
+
+  describe('choice brackets', () => {
+    it('should tokenize random choices and alternations', () => {
+      const tokens = tokenize('{C4|E4} <G4 A4>');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.BRACE_OPEN,
+        TokenType.NOTE,
+        TokenType.PIPE,
+        TokenType.NOTE,
+        TokenType.BRACE_CLOSE,
+        TokenType.ANGLE_OPEN,
+        TokenType.NOTE,
+        TokenType.NOTE,
+        TokenType.ANGLE_CLOSE,
+        TokenType.EOF,
+      ]);
+    });
+  });
+
+  describe('string literals', () => {
+    it('should tokenize a quoted string without its quotes', () => {
+      const tokens = tokenize('steps C2 "x..X -x|"');
+      expect(tokens[2]).toEqual({ type: TokenType.STRING, value: 'x..X -x|', line: 1, column: 10 });
+      expect(tokens[3].type).toBe(TokenType.EOF);
+    });
+
+    it('should throw on an unterminated string', () => {
+      expect(() => tokenize('steps C2 "x..x\nC4 1/4')).toThrow('Unterminated string at line 1, column 10');
+    });
+
+    it('should read a triple-quoted string across lines', () => {
+      const tokens = tokenize('tuning scl="""\nJust\n1\n3/2 "fifth"\n""" bpm 90');
+      expect(tokens[3]).toEqual({ type: TokenType.STRING, value: 'Just\n1\n3/2 "fifth"\n', line: 1, column: 12 });
+      expect(tokens[4]).toEqual({ type: TokenType.BPM, value: 'bpm', line: 5, column: 5 });
+    });
+
+    it('should throw on an unterminated triple-quoted string', () => {
+      expect(() => tokenize('tuning scl="""\nJust\n1\n')).toThrow('Unterminated string at line 1, column 12');
+    });
+  });
+
+  describe('articulation marks', () => {
+    it('should tokenize a lone dot and keep dotted durations whole', () => {
+      const tokens = tokenize('C4 1/4 . D4 1/4. >');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.NOTE,
+        TokenType.DURATION,
+        TokenType.DOT,
+        TokenType.NOTE,
+        TokenType.DURATION,
+        TokenType.ANGLE_CLOSE,
+        TokenType.EOF,
+      ]);
+      expect(tokens[4].value).toBe('1/4.');
+    });
+  });
+
+  describe('section and song keywords', () => {
+    it('should tokenize section and song as keywords', () => {
+      const tokens = tokenize('section verse:\nsong: verse x2');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.SECTION,
+        TokenType.IDENTIFIER,
+        TokenType.COLON,
+        TokenType.SONG,
+        TokenType.COLON,
+        TokenType.IDENTIFIER,
+        TokenType.REPEAT,
+        TokenType.EOF,
+      ]);
+    });
+  });
+
+  describe('gate keyword', () => {
+    it('should tokenize gate as a keyword in directives and options', () => {
+      const tokens = tokenize('gate 0.5 C4 1/4 gate=1');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.GATE,
+        TokenType.DECIMAL,
+        TokenType.NOTE,
+        TokenType.DURATION,
+        TokenType.GATE,
+        TokenType.EQUALS,
+        TokenType.NUMBER,
+        TokenType.EOF,
+      ]);
+    });
+  });
+
+  describe('nudge and humanize', () => {
+    it('should tokenize milliseconds and the humanize keyword', () => {
+      const tokens = tokenize('humanize time=2.5ms nudge=-8ms');
+      expect(tokens.map(t => [t.type, t.value])).toEqual([
+        [TokenType.HUMANIZE, 'humanize'],
+        [TokenType.TIME, 'time'],
+        [TokenType.EQUALS, '='],
+        [TokenType.MILLISECONDS, '2.5ms'],
+        [TokenType.IDENTIFIER, 'nudge'],
+        [TokenType.EQUALS, '='],
+        [TokenType.MINUS, '-'],
+        [TokenType.MILLISECONDS, '8ms'],
+        [TokenType.EOF, ''],
+      ]);
+    });
+  });
+
+  describe('let keyword', () => {
+    it('should tokenize a constant definition', () => {
+      const tokens = tokenize('let accent = 0.95');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.LET,
+        TokenType.IDENTIFIER,
+        TokenType.EQUALS,
+        TokenType.DECIMAL,
+        TokenType.EOF,
+      ]);
+    });
+  });
+
+  describe('stretch operators', () => {
+    it('should tokenize star and a standalone slash', () => {
+      const tokens = tokenize('*3/2 /2');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.STAR,
+        TokenType.DURATION,
+        TokenType.SLASH,
+        TokenType.NUMBER,
+        TokenType.EOF,
+      ]);
+    });
+
+    it('should still skip comments', () => {
+      const tokens = tokenize('use riff /2 // half time');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.USE,
+        TokenType.IDENTIFIER,
+        TokenType.SLASH,
+        TokenType.NUMBER,
+        TokenType.EOF,
+      ]);
+    });
+  });
+
+  describe('parentheses', () => {
+    it('should tokenize pattern parameter lists', () => {
+      const tokens = tokenize('bass(E2, 0.9)');
+      expect(tokens.map(t => t.type)).toEqual([
+        TokenType.IDENTIFIER,
+        TokenType.PAREN_OPEN,
+        TokenType.NOTE,
+        TokenType.COMMA,
+        TokenType.DECIMAL,
+        TokenType.PAREN_CLOSE,
+        TokenType.EOF,
+      ]);
+    });
+  });
+
+  describe('hyphenated words', () => {
+    it('should tokenize as-played as a single identifier', () => {
+      const tokens = tokenize('arp as-played 1/16');
+      expect(tokens[1]).toEqual({ type: TokenType.IDENTIFIER, value: 'as-played', line: 1, column: 5 });
+      expect(tokens[2].type).toBe(TokenType.DURATION);
+    });
+  });
+
   describe('rests', () => {
     it('should tokenize rest', () => {
       const tokens = tokenize('r');
@@ -94,6 +353,36 @@ describe('tokenize', () => {
     });
   });
 
+  describe('tuplets', () => {
+    it('should tokenize a tuplet ratio', () => {
+      const tokens = tokenize('3:2 {');
+      expect(tokens[0]).toEqual({ type: TokenType.TUPLET, value: '3:2', line: 1, column: 1 });
+      expect(tokens[1].type).toBe(TokenType.BRACE_OPEN);
+    });
+
+    it('should tokenize triplet shorthand durations', () => {
+      const tokens = tokenize('C4 1/8t');
+      expect(tokens[1]).toEqual({ type: TokenType.DURATION, value: '1/8t', line: 1, column: 4 });
+    });
+
+    it('should tokenize dotted durations', () => {
+      const tokens = tokenize('1/4. 1/8..,');
+      expect(tokens[0]).toEqual({ type: TokenType.DURATION, value: '1/4.', line: 1, column: 1 });
+      expect(tokens[1]).toEqual({ type: TokenType.DURATION, value: '1/8..', line: 1, column: 6 });
+      expect(tokens[2].type).toBe(TokenType.COMMA);
+    });
+
+    it('should tokenize the tie operator', () => {
+      const tokens = tokenize('C4 1/2 ~ 1/8');
+      expect(tokens[2]).toEqual({ type: TokenType.TIE, value: '~', line: 1, column: 8 });
+    });
+
+    it('should still tokenize a colon after a name', () => {
+      const tokens = tokenize('pattern p1:');
+      expect(tokens[2].type).toBe(TokenType.COLON);
+    });
+  });
+
   describe('numbers', () => {
     it('should tokenize number', () => {
       const tokens = tokenize('120');
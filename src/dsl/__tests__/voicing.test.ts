@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { invertChord, applyVoicing, voiceLead } from '../voicing';
+
+// C major triad: C4 E4 G4
+const C_MAJOR = [60, 64, 67];
+
+describe('invertChord', () => {
+  it('should move the lowest note up an octave per inversion', () => {
+    expect(invertChord(C_MAJOR, 0)).toEqual([60, 64, 67]);
+    expect(invertChord(C_MAJOR, 1)).toEqual([64, 67, 72]);
+    expect(invertChord(C_MAJOR, 2)).toEqual([67, 72, 76]);
+  });
+
+  it('should not modify the input', () => {
+    const chord = [67, 60, 64];
+    invertChord(chord, 1);
+    expect(chord).toEqual([67, 60, 64]);
+  });
+});
+
+describe('applyVoicing', () => {
+  it('should drop the second-highest note for drop2', () => {
+    // Cmaj7 C4 E4 G4 B4 -> G3 C4 E4 B4
+    expect(applyVoicing([60, 64, 67, 71], { drop2: true })).toEqual([55, 60, 64, 71]);
+  });
+
+  it('should spread every second note up an octave for open', () => {
+    expect(applyVoicing(C_MAJOR, { open: true })).toEqual([60, 67, 76]);
+  });
+
+  it('should apply the inversion before drop2', () => {
+    // First inversion E4 G4 C5, then G4 drops: G3 E4 C5
+    expect(applyVoicing(C_MAJOR, { inversion: 1, drop2: true })).toEqual([55, 64, 72]);
+  });
+});
+
+describe('voiceLead', () => {
+  it('should keep the chord as written without a previous chord', () => {
+    expect(voiceLead(C_MAJOR, [])).toEqual(C_MAJOR);
+  });
+
+  it('should pick the inversion nearest the previous chord', () => {
+    // F major after C major: C4 F4 A4 keeps the common tone C4
+    expect(voiceLead([65, 69, 72], C_MAJOR)).toEqual([60, 65, 69]);
+    // G major after C major: B3 D4 G4
+    expect(voiceLead([67, 71, 74], C_MAJOR)).toEqual([59, 62, 67]);
+  });
+
+  it('should move chords written far away back near the previous one', () => {
+    // A minor written two octaves up (A5 C6 E6) returns next to C major
+    expect(voiceLead([81, 84, 88], C_MAJOR)).toEqual([60, 64, 69]);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Chord Symbol Module
+ * Expands chord symbols (e.g., "Cmaj7", "Am/C", "G7b9") into spelled pitch strings.
+ */
+
+/**
+ * A chord tone: letter steps above the root (0 = root, 2 = third, ...) and semitones above the root.
+ */
+type ChordTone = [steps: number, semitones: number];
+
+const ROOT: ChordTone = [0, 0];
+const SECOND: ChordTone = [1, 2];
+const MINOR_THIRD: ChordTone = [2, 3];
+const MAJOR_THIRD: ChordTone = [2, 4];
+const FOURTH: ChordTone = [3, 5];
+const FLAT_FIFTH: ChordTone = [4, 6];
+const FIFTH: ChordTone = [4, 7];
+const SHARP_FIFTH: ChordTone = [4, 8];
+const SIXTH: ChordTone = [5, 9];
+const DIMINISHED_SEVENTH: ChordTone = [6, 9];
+const MINOR_SEVENTH: ChordTone = [6, 10];
+const MAJOR_SEVENTH: ChordTone = [6, 11];
+const NINTH: ChordTone = [1, 14];
+const ELEVENTH: ChordTone = [3, 17];
+const THIRTEENTH: ChordTone = [5, 21];
+
+// Chord tones for each quality suffix
+const CHORD_QUALITIES: Record<string, ChordTone[]> = {
+  '': [ROOT, MAJOR_THIRD, FIFTH],
+  'maj': [ROOT, MAJOR_THIRD, FIFTH],
+  'm': [ROOT, MINOR_THIRD, FIFTH],
+  'min': [ROOT, MINOR_THIRD, FIFTH],
+  'dim': [ROOT, MINOR_THIRD, FLAT_FIFTH],
+  'aug': [ROOT, MAJOR_THIRD, SHARP_FIFTH],
+  'sus2': [ROOT, SECOND, FIFTH],
+  'sus4': [ROOT, FOURTH, FIFTH],
+  'sus': [ROOT, FOURTH, FIFTH],
+  '6': [ROOT, MAJOR_THIRD, FIFTH, SIXTH],
+  'm6': [ROOT, MINOR_THIRD, FIFTH, SIXTH],
+  '7': [ROOT, MAJOR_THIRD, FIFTH, MINOR_SEVENTH],
+  '7sus4': [ROOT, FOURTH, FIFTH, MINOR_SEVENTH],
+  'maj7': [ROOT, MAJOR_THIRD, FIFTH, MAJOR_SEVENTH],
+  'm7': [ROOT, MINOR_THIRD, FIFTH, MINOR_SEVENTH],
+  'min7': [ROOT, MINOR_THIRD, FIFTH, MINOR_SEVENTH],
+  'm7b5': [ROOT, MINOR_THIRD, FLAT_FIFTH, MINOR_SEVENTH],
+  'dim7': [ROOT, MINOR_THIRD, FLAT_FIFTH, DIMINISHED_SEVENTH],
+  '9': [ROOT, MAJOR_THIRD, FIFTH, MINOR_SEVENTH, NINTH],
+  'maj9': [ROOT, MAJOR_THIRD, FIFTH, MAJOR_SEVENTH, NINTH],
+  'm9': [ROOT, MINOR_THIRD, FIFTH, MINOR_SEVENTH, NINTH],
+  '11': [ROOT, MAJOR_THIRD, FIFTH, MINOR_SEVENTH, NINTH, ELEVENTH],
+  'm11': [ROOT, MINOR_THIRD, FIFTH, MINOR_SEVENTH, NINTH, ELEVENTH],
+  '13': [ROOT, MAJOR_THIRD, FIFTH, MINOR_SEVENTH, NINTH, THIRTEENTH],
+  'maj13': [ROOT, MAJOR_THIRD, FIFTH, MAJOR_SEVENTH, NINTH, THIRTEENTH],
+  'm13': [ROOT, MINOR_THIRD, FIFTH, MINOR_SEVENTH, NINTH, THIRTEENTH],
+  'add9': [ROOT, MAJOR_THIRD, FIFTH, NINTH],
+  'madd9': [ROOT, MINOR_THIRD, FIFTH, NINTH],
+};
+
+// Altered extensions written after the quality (e.g., G7b9, C7#5#9)
+const ALTERATIONS: Record<string, ChordTone> = {
+  'b5': FLAT_FIFTH,
+  '#5': SHARP_FIFTH,
+  'b9': [1, 13],
+  '#9': [1, 15],
+  '#11': [3, 18],
+  'b13': [5, 20],
+};
+
+const NOTE_LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const LETTER_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+const DEFAULT_OCTAVE = 4;
+
+// Quality suffixes, longest first so that "maj7" wins over "maj"
+const QUALITY_ALTERNATIVES = Object.keys(CHORD_QUALITIES)
+  .filter(quality => quality !== '')
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+
+const CHORD_SYMBOL_PATTERN = new RegExp(
+  `^([A-G][#b]?)(${QUALITY_ALTERNATIVES})?((?:b5|#5|b9|#9|#11|b13)*)(?:/([A-G][#b]?))?$`
+);
+
+/**
+ * Semitone of a note name (letter + optional accidental) within the octave, 0-11.
+ */
+function noteNameSemitone(name: string): number {
+  const base = LETTER_SEMITONES[NOTE_LETTERS.indexOf(name[0])];
+  return (base + accidentalOffset(name) + 12) % 12;
+}
+
+/**
+ * Semitone offset of a note name's accidental (F# -> 1, Bb -> -1).
+ */
+function accidentalOffset(name: string): number {
+  return name[1] === '#' ? 1 : name[1] === 'b' ? -1 : 0;
+}
+
+/**
+ * Spell a MIDI note on a given letter, falling back to an enharmonic
+ * spelling when the letter would need a double accidental.
+ */
+function spellMidi(midi: number, letterIndex: number): string {
+  let index = letterIndex;
+  // Offset from the natural letter, folded into -6..5
+  let offset = ((midi - LETTER_SEMITONES[index]) % 12 + 18) % 12 - 6;
+
+  if (Math.abs(offset) > 1) {
+    // Move one letter towards the pitch (e.g., Bbb -> A, E## -> F#)
+    index = (index + Math.sign(offset) + NOTE_LETTERS.length) % NOTE_LETTERS.length;
+    offset = ((midi - LETTER_SEMITONES[index]) % 12 + 18) % 12 - 6;
+  }
+
+  const accidental = offset === 1 ? '#' : offset === -1 ? 'b' : '';
+  const octave = Math.floor((midi - offset - LETTER_SEMITONES[index]) / 12) - 1;
+  return `${NOTE_LETTERS[index]}${accidental}${octave}`;
+}
+
+/**
+ * Check whether a string is a valid chord symbol (without octave).
+ * @param symbol - Chord symbol like "Cmaj7", "Am/C"
+ */
+export function isChordSymbol(symbol: string): boolean {
+  return CHORD_SYMBOL_PATTERN.test(symbol);
+}
+
+/**
+ * Expand a chord symbol into pitch strings, lowest note first.
+ * The root sits in the given octave and the other tones stack above it.
+ * A slash bass note is added below the root.
+ * @param symbol - Chord symbol like "Cmaj7", "Am/C", "G7b9"
+ * @param octave - Octave of the root (default 4)
+ * @returns Pitch strings like ["C4", "E4", "G4", "B4"]
+ * @throws Error if the symbol is not a known chord
+ */
+export function expandChordSymbol(symbol: string, octave: number = DEFAULT_OCTAVE): string[] {
+  const match = CHORD_SYMBOL_PATTERN.exec(symbol);
+  if (!match) {
+    throw new Error(`Invalid chord symbol '${symbol}'`);
+  }
+
+  const [, root, quality = '', alterations, bass] = match;
+  const tones = [...CHORD_QUALITIES[quality]];
+
+  // An alteration replaces the tone it alters (b9 replaces 9), otherwise it is added
+  for (const alteration of alterations.match(/[b#]\d+/g) ?? []) {
+    const tone = ALTERATIONS[alteration];
+    const existing = tones.findIndex(([steps, semitones]) =>
+      steps === tone[0] && (semitones >= 12) === (tone[1] >= 12)
+    );
+    if (existing >= 0) {
+      tones[existing] = tone;
+    } else {
+      tones.push(tone);
+    }
+  }
+  tones.sort((a, b) => a[1] - b[1]);
+
+  const rootLetterIndex = NOTE_LETTERS.indexOf(root[0]);
+  const rootMidi = 12 * (octave + 1) + LETTER_SEMITONES[rootLetterIndex] + accidentalOffset(root);
+  const pitches = tones.map(([steps, semitones]) =>
+    spellMidi(rootMidi + semitones, (rootLetterIndex + steps) % NOTE_LETTERS.length)
+  );
+
+  if (bass) {
+    // Highest bass note strictly below the root
+    const interval = (noteNameSemitone(root) - noteNameSemitone(bass) + 12) % 12 || 12;
+    pitches.unshift(spellMidi(rootMidi - interval, NOTE_LETTERS.indexOf(bass[0])));
+  }
+
+  return pitches;
+}
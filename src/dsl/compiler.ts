@@ -9,17 +9,42 @@ import type {
   NoteNode, 
   RestNode, 
   ChordNode, 
+  ChoiceNode,
   RepeatBlock, 
   PatternUse, 
+  PatternTransform,
+  TempoChange,
+  TupletBlock,
+  VoiceLeadBlock,
+  ArpBlock,
+  ArpMode,
+  Articulation,
+  EuclidBlock,
+  StepsBlock,
+  NoteTie,
+  Nudge,
+  ParameterRef,
+  PatternArgument,
   SequenceItem,
   PatternDefinition,
   InstDirective,
+  TrackDefinition,
   GlobalSettings
 } from './parser';
 import { tokenize } from './tokenizer';
-import { parsePitch, pitchToMidi, midiToFrequency } from './pitch';
-import { parseDurationToSeconds } from './duration';
+import { parsePitch, pitchToMidi, midiToFrequency, frequencyToMidi, applyKeySignature, tunedFrequency } from './pitch';
+import type { Pitch, KeySignature, Tuning } from './pitch';
+import { parseDuration, durationToWholeNotes } from './duration';
 import { applySwing } from './swing';
+import { applyHumanize } from './humanize';
+import type { HumanizeSettings } from './humanize';
+import { applyVoicing, voiceLead } from './voicing';
+import { euclid } from './euclid';
+import { createRandom, randomIndex, shuffle, DEFAULT_SEED } from './random';
+import type { RandomGenerator } from './random';
+import { createTempoMap, positionToSeconds, bpmAtPosition, hasTempoChanges } from './tempo';
+import type { TempoMap, TempoMarker } from './tempo';
+import { DSLError } from './errors';
 
 /**
  * ADSR envelope settings for SynthEvent
@@ -36,7 +61,8 @@ export interface SynthEventADSR {
  */
 export interface SynthEvent {
   t: number;           // Start time in seconds
-  dur: number;         // Duration in seconds
+  dur: number;         // Duration in seconds (time until the next step)
+  gate?: number;       // Sounding duration in seconds, if it differs from dur (optional)
   kind: 'note' | 'rest';
   midi: number | null; // MIDI note number (null for rests)
   freq: number | null; // Frequency in Hz (null for rests)
@@ -46,6 +72,18 @@ export interface SynthEvent {
   track?: string;      // Track name (optional)
   gain?: number;       // Instrument gain (optional)
   adsr?: SynthEventADSR; // ADSR envelope (optional)
+  tuplet?: boolean;    // Part of a tuplet; swing leaves it in place (optional)
+  loop?: number;       // Cycle length in seconds of a track with loop=; repeats inside the loop (optional)
+  humanize?: HumanizeSettings; // Humanize amounts of the note's track, overriding the global ones (optional)
+}
+
+/**
+ * One play of a song section, in the order of the song line.
+ */
+export interface SongSection {
+  name: string;
+  start: number;       // Start time in seconds
+  end: number;         // End time in seconds
 }
 
 /**
@@ -57,10 +95,27 @@ export interface CompilationResult {
   eventCount: number;
   events: SynthEvent[];
   globalSettings: GlobalSettings;
+  tempoMap: TempoMap;
+  sections: SongSection[]; // Section boundaries (empty without sections)
 }
 
 // Default values
 const DEFAULT_VELOCITY = 0.8;
+const ACCENT_VELOCITY = 1.0; // Velocity of X steps without accent=
+const MAX_VELOCITY = 1.0;
+
+/**
+ * How each articulation changes a note: its sounding length as a fraction
+ * of the step, and velocity added to the written velocity
+ */
+const ARTICULATION_EFFECTS: Record<Articulation, { gate?: number; velocity?: number }> = {
+  staccato: { gate: 0.5 },
+  tenuto: { gate: 1 },
+  legato: { gate: 1.1 }, // Overlaps into the next note
+  accent: { velocity: 0.2 },
+};
+const MIN_MIDI = 0;
+const MAX_MIDI = 127;
 const DEFAULT_ADSR: SynthEventADSR = {
   attack: 0.005,
   decay: 0.05,
@@ -69,30 +124,128 @@ const DEFAULT_ADSR: SynthEventADSR = {
 };
 
 /**
- * Compiler context for tracking state during compilation
+ * Tempo change collected during compilation, with its musical position
+ */
+interface PlacedTempoChange {
+  change: TempoChange;
+  position: number;    // Position in whole notes
+}
+
+/**
+ * Arpeggiator settings active inside an arp block
+ */
+interface ActiveArpeggio {
+  mode: ArpMode;
+  rate: number;        // Step length in whole notes
+  tuplet: boolean;     // Steps fall off the straight grid (e.g., 1/16t)
+  octaves: number;
+  random: RandomGenerator;
+}
+
+/**
+ * Argument bound to a pattern parameter
+ */
+interface BoundArgument {
+  argument: PatternArgument;
+  offset: number;      // Semitones added when a pitch parameter was passed on with an interval
+}
+
+/**
+ * Events of an expanded pattern that start together (a note, rest or chord)
+ */
+interface EventStep {
+  events: SynthEvent[];
+  start: number;       // Position in whole notes
+  length: number;      // Whole notes until the next step
+}
+
+/**
+ * Compiler context for tracking state during compilation.
+ * 
+ * Sequence items are laid out in musical positions (whole notes from the start)
+ * and converted to seconds through the tempo map once all tempo changes are known.
  */
 interface CompilerContext {
-  bpm: number;
+  barLength: number;   // Bar length in whole notes (from the time signature)
+  grid: number;        // Grid subdivision, e.g. 16 (default step length of step strings)
+  gate?: number;       // Global gate directive
+  trackGate?: number;  // gate= of the track being compiled
   patterns: Map<string, PatternDefinition>;
   instruments: Map<string, InstDirective>;
   defaultInstrument: InstDirective;
+  tempoChanges: PlacedTempoChange[];
+  tupletScale: number; // Duration multiplier from enclosing tuplets (1 outside tuplets)
+  stretch: number;     // Duration multiplier from enclosing pattern uses with *N or /N (1 outside them)
+  key?: KeySignature;  // Key signature of the track being compiled
+  voiceLead?: { previous: number[] }; // Set inside voicelead blocks: notes of the last chord
+  arpeggio?: ActiveArpeggio; // Set inside arp blocks
+  transpose: number;   // Semitones added by enclosing pattern uses (0 outside them)
+  bindings: Map<string, BoundArgument>; // Arguments of the parameterized pattern being expanded
+  constants: Map<string, BoundArgument>; // let constants, visible wherever no parameter hides them
+  seed: number;        // Program seed: default for every random feature without its own seed=
+  random: RandomGenerator; // Shared stream for per-note probabilities and random choices
+  cycles: Map<ChoiceNode, number>; // Passes through each alternation so far in the current track
+  nudges: Map<SynthEvent, number>; // Millisecond nudges in seconds, applied once events are timed
+  positionNudges: Map<SynthEvent, number>; // Duration nudges in whole notes, applied once patterns are transformed
 }
 
+/**
+ * Events together with the tempo map used to time them
+ */
+interface CompiledProgram {
+  events: SynthEvent[];
+  tempoMap: TempoMap;
+  sections: SongSection[];
+}
+
+/**
+ * Section placed on the timeline, in whole notes
+ */
+interface PlacedSection {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/** Tolerance when rounding section lengths up to whole bars and cutting track cycles */
+const BAR_EPSILON = 1e-9;
+
 /**
  * Compile an AST into a list of SynthEvents.
  * @param ast - The AST from the parser
  * @returns Array of SynthEvents sorted by start time
  */
 export function compile(ast: AST): SynthEvent[] {
+  return compileProgram(ast).events;
+}
+
+/**
+ * Compile an AST into SynthEvents and the tempo map that places them in time.
+ */
+function compileProgram(ast: AST): CompiledProgram {
   const events: SynthEvent[] = [];
-  const bpm = ast.bpm.value;
+  const { timeSignature } = ast.globalSettings;
+  const seed = ast.globalSettings.seed ?? DEFAULT_SEED;
 
   // Build context
   const context: CompilerContext = {
-    bpm,
+    barLength: timeSignature.numerator / timeSignature.denominator,
+    grid: ast.globalSettings.grid,
+    gate: ast.globalSettings.gate,
     patterns: new Map(),
     instruments: new Map(),
     defaultInstrument: ast.instrument,
+    tempoChanges: [],
+    tupletScale: 1,
+    stretch: 1,
+    transpose: 0,
+    bindings: new Map(),
+    constants: new Map(),
+    seed,
+    random: createRandom(seed),
+    cycles: new Map(),
+    nudges: new Map(),
+    positionNudges: new Map(),
   };
 
   // Index patterns by name
@@ -100,6 +253,11 @@ export function compile(ast: AST): SynthEvent[] {
     context.patterns.set(pattern.name, pattern);
   }
 
+  // Index constants by name; pitch constants are resolved per track, under its key
+  for (const constant of ast.constants) {
+    context.constants.set(constant.name, { argument: constant.value, offset: constant.offset ?? 0 });
+  }
+
   // Index instruments by name
   for (const inst of ast.instruments) {
     context.instruments.set(inst.name, inst);
@@ -108,6 +266,8 @@ export function compile(ast: AST): SynthEvent[] {
   // Compile main sequence if present
   if (ast.sequence) {
     const inst = ast.instrument;
+    context.key = ast.globalSettings.key;
+    context.cycles = new Map();
     compileSequenceItems(
       ast.sequence.items,
       0,
@@ -118,62 +278,227 @@ export function compile(ast: AST): SynthEvent[] {
     );
   }
 
-  // Compile tracks
+  // Compile tracks; they start at time 0 and play simultaneously
   for (const track of ast.tracks) {
-    const inst = context.instruments.get(track.instrumentName);
-    if (!inst) {
-      const availableInstruments = Array.from(context.instruments.keys());
-      const suggestion = availableInstruments.length > 0
-        ? `Available instruments: ${availableInstruments.join(', ')}`
-        : 'No instruments defined. Add an instrument with: inst <name> <waveform>';
-      throw new Error(
-        `Track '${track.name}' references undefined instrument '${track.instrumentName}'. ${suggestion}`
-      );
-    }
-    compileSequenceItems(
-      track.items,
-      0, // Tracks start at time 0 (play simultaneously)
-      inst,
-      track.name,
-      context,
-      events
+    compileTrack(track, 0, ast.globalSettings, context, events);
+  }
+
+  const placedSections = compileSong(ast, context, events);
+
+  // Duration nudges move notes only after pattern transforms have laid out the steps
+  for (const [event, offset] of context.positionNudges) {
+    event.t = Math.max(0, event.t + offset);
+  }
+
+  // Convert musical positions to seconds through the shared tempo map
+  const tempoMap = buildTempoMap(ast.bpm.value, context);
+  const loopTrack = ast.tracks.find(track => track.loop !== undefined);
+  if (loopTrack && hasTempoChanges(tempoMap)) {
+    throw new DSLError(
+      `Track '${loopTrack.name}' sets loop= but the tempo changes. Track loops need a constant tempo`,
+      loopTrack.line,
+      loopTrack.column
     );
   }
+  for (const event of events) {
+    const start = positionToSeconds(tempoMap, event.t);
+    const end = positionToSeconds(tempoMap, event.t + event.dur);
+    if (event.gate !== undefined) {
+      event.gate = positionToSeconds(tempoMap, event.t + event.gate) - start;
+    }
+    event.t = start;
+    event.dur = end - start;
+    if (event.loop !== undefined) {
+      event.loop = positionToSeconds(tempoMap, event.loop);
+    }
+  }
+  for (const [event, seconds] of context.nudges) {
+    event.t = Math.max(0, event.t + seconds);
+  }
+  const sections = placedSections.map(section => ({
+    name: section.name,
+    start: positionToSeconds(tempoMap, section.start),
+    end: positionToSeconds(tempoMap, section.end),
+  }));
+
+  const { tuning } = ast.globalSettings;
+  if (tuning) {
+    for (const event of events) {
+      retuneEvent(event, tuning);
+    }
+  }
 
   // Sort events by start time
   events.sort((a, b) => a.t - b.t);
 
-  return events;
+  return { events, tempoMap, sections };
+}
+
+/**
+ * Compile a track's items from a start position.
+ * @returns The end position (in whole notes) of the track
+ */
+function compileTrack(
+  track: TrackDefinition,
+  startPosition: number,
+  globalSettings: GlobalSettings,
+  context: CompilerContext,
+  events: SynthEvent[]
+): number {
+  const inst = context.instruments.get(track.instrumentName);
+  if (!inst) {
+    const availableInstruments = Array.from(context.instruments.keys());
+    const suggestion = availableInstruments.length > 0
+      ? `Available instruments: ${availableInstruments.join(', ')}`
+      : 'No instruments defined. Add an instrument with: inst <name> <waveform>';
+    throw new Error(
+      `Track '${track.name}' references undefined instrument '${track.instrumentName}'. ${suggestion}`
+    );
+  }
+  context.key = track.key ?? globalSettings.key;
+  context.trackGate = track.gate;
+  context.cycles = new Map();
+  const firstEvent = events.length;
+  const firstTempoChange = context.tempoChanges.length;
+  const end = compileSequenceItems(track.items, startPosition, inst, track.name, context, events);
+
+  if (track.humanize) {
+    for (const event of events.slice(firstEvent)) {
+      event.humanize = track.humanize;
+    }
+  }
+
+  // A track with its own loop keeps one cycle, with notes cut off at its end; the scheduler repeats it
+  if (track.loop !== undefined) {
+    const cycleEnd = startPosition + track.loop;
+    const cycle = events.splice(firstEvent).filter(event => event.t < cycleEnd - BAR_EPSILON);
+    for (const event of cycle) {
+      event.dur = Math.min(event.dur, cycleEnd - event.t);
+      if (event.gate !== undefined) {
+        event.gate = Math.min(event.gate, cycleEnd - event.t);
+      }
+      event.loop = track.loop;
+    }
+    events.push(...cycle);
+
+    const tempoChanges = context.tempoChanges.splice(firstTempoChange);
+    context.tempoChanges.push(...tempoChanges.filter(({ position }) => position < cycleEnd - BAR_EPSILON));
+    return Math.min(end, cycleEnd);
+  }
+  return end;
+}
+
+/**
+ * Lay out the song's sections one after another, in the order of the song
+ * line (or the order they are defined in without one). Each section lasts
+ * as long as its longest track, rounded up to whole bars.
+ * @returns Where each play of a section starts and ends, in whole notes
+ */
+function compileSong(ast: AST, context: CompilerContext, events: SynthEvent[]): PlacedSection[] {
+  const entries = ast.song?.entries ?? ast.sections.map(section => ({ section: section.name, repetitions: 1 }));
+  const placed: PlacedSection[] = [];
+  let position = 0;
+
+  for (const entry of entries) {
+    const section = ast.sections.find(candidate => candidate.name === entry.section)!;
+    for (let i = 0; i < entry.repetitions; i++) {
+      let end = position;
+      for (const track of section.tracks) {
+        end = Math.max(end, compileTrack(track, position, ast.globalSettings, context, events));
+      }
+      const bars = Math.ceil((end - position) / context.barLength - BAR_EPSILON);
+      placed.push({ name: section.name, start: position, end: position + bars * context.barLength });
+      position += bars * context.barLength;
+    }
+  }
+
+  return placed;
+}
+
+/**
+ * Move a note event's frequency from 12-TET at 440 Hz to a tuning, keeping its cent offset.
+ * A note the tuning's keyboard mapping leaves unmapped becomes a rest.
+ */
+function retuneEvent(event: SynthEvent, tuning: Tuning): void {
+  if (event.kind !== 'note' || event.freq === null) {
+    return;
+  }
+
+  const freq = tunedFrequency(frequencyToMidi(event.freq), tuning);
+  if (freq === null) {
+    event.kind = 'rest';
+    event.midi = null;
+    event.freq = null;
+    event.vel = 0;
+    delete event.gate;
+    return;
+  }
+  event.freq = freq;
+}
+
+/**
+ * Build the tempo map from tempo changes collected across all tracks.
+ * @throws DSLError if an accel does not speed up or a rit does not slow down
+ */
+function buildTempoMap(baseBpm: number, context: CompilerContext): TempoMap {
+  const markers: TempoMarker[] = context.tempoChanges.map(({ change, position }) => ({
+    position,
+    bpm: change.bpm,
+    rampLength: change.bars !== undefined ? change.bars * context.barLength : undefined,
+  }));
+  const tempoMap = createTempoMap(baseBpm, markers);
+
+  for (const { change, position } of context.tempoChanges) {
+    if (change.mode === 'set') continue;
+
+    const startBpm = bpmAtPosition(tempoMap, position);
+    if (change.mode === 'accel' && change.bpm <= startBpm) {
+      throw new DSLError(
+        `accel target ${change.bpm} BPM must be faster than the current tempo (${+startBpm.toFixed(2)} BPM). Use rit to slow down`,
+        change.line,
+        change.column
+      );
+    }
+    if (change.mode === 'rit' && change.bpm >= startBpm) {
+      throw new DSLError(
+        `rit target ${change.bpm} BPM must be slower than the current tempo (${+startBpm.toFixed(2)} BPM). Use accel to speed up`,
+        change.line,
+        change.column
+      );
+    }
+  }
+
+  return tempoMap;
 }
 
 /**
  * Compile sequence items into events
- * @returns The end time after all items
+ * @returns The end position (in whole notes) after all items
  */
 function compileSequenceItems(
   items: SequenceItem[],
-  startTime: number,
+  startPosition: number,
   instrument: InstDirective,
   trackName: string | undefined,
   context: CompilerContext,
   events: SynthEvent[]
 ): number {
-  let currentTime = startTime;
+  let position = startPosition;
 
   for (const item of items) {
-    currentTime = compileSequenceItem(item, currentTime, instrument, trackName, context, events);
+    position = compileSequenceItem(item, position, instrument, trackName, context, events);
   }
 
-  return currentTime;
+  return position;
 }
 
 /**
  * Compile a single sequence item
- * @returns The end time after this item
+ * @returns The end position (in whole notes) after this item
  */
 function compileSequenceItem(
   item: SequenceItem,
-  currentTime: number,
+  position: number,
   instrument: InstDirective,
   trackName: string | undefined,
   context: CompilerContext,
@@ -181,15 +506,29 @@ function compileSequenceItem(
 ): number {
   switch (item.type) {
     case 'note':
-      return compileNote(item, currentTime, instrument, trackName, events, context);
+      return compileNote(item, position, instrument, trackName, events, context);
     case 'rest':
-      return compileRest(item, currentTime, instrument, trackName, events, context);
+      return compileRest(item, position, instrument, trackName, events, context);
     case 'chord':
-      return compileChord(item, currentTime, instrument, trackName, events, context);
+      return compileChord(item, position, instrument, trackName, events, context);
+    case 'choice':
+      return compileChoice(item, position, instrument, trackName, events, context);
     case 'repeat':
-      return compileRepeatBlock(item, currentTime, instrument, trackName, context, events);
+      return compileRepeatBlock(item, position, instrument, trackName, context, events);
     case 'patternUse':
-      return compilePatternUse(item, currentTime, instrument, trackName, context, events);
+      return compilePatternUse(item, position, instrument, trackName, context, events);
+    case 'tempo':
+      return compileTempoChange(item, position, context);
+    case 'tuplet':
+      return compileTupletBlock(item, position, instrument, trackName, context, events);
+    case 'voicelead':
+      return compileVoiceLeadBlock(item, position, instrument, trackName, context, events);
+    case 'arp':
+      return compileArpBlock(item, position, instrument, trackName, context, events);
+    case 'euclid':
+      return compileEuclidBlock(item, position, instrument, trackName, context, events);
+    case 'steps':
+      return compileStepsBlock(item, position, instrument, trackName, context, events);
     default:
       throw new Error(`Unknown sequence item type: ${(item as SequenceItem).type}`);
   }
@@ -209,28 +548,25 @@ function buildADSR(instrument: InstDirective): SynthEventADSR {
 }
 
 /**
- * Compile a note into an event
+ * Build a note event with the instrument's settings.
+ * A fractional midi (from a cent offset) sets the frequency; the event's midi is the nearest semitone.
  */
-function compileNote(
-  note: NoteNode,
-  currentTime: number,
+function createNoteEvent(
+  position: number,
+  duration: number,
+  midi: number,
+  velocity: number,
   instrument: InstDirective,
   trackName: string | undefined,
-  events: SynthEvent[],
-  context: CompilerContext
-): number {
-  const duration = parseDurationToSeconds(note.duration, context.bpm);
-  const pitch = parsePitch(note.pitch);
-  const midi = pitchToMidi(pitch);
-  const freq = midiToFrequency(midi);
-  const velocity = note.velocity ?? DEFAULT_VELOCITY;
-
+  tuplet: boolean,
+  gate?: number
+): SynthEvent {
   const event: SynthEvent = {
-    t: currentTime,
+    t: position,
     dur: duration,
     kind: 'note',
-    midi,
-    freq,
+    midi: Math.round(midi),
+    freq: midiToFrequency(midi),
     vel: velocity,
     inst: instrument.name,
     waveform: instrument.waveform,
@@ -240,6 +576,14 @@ function compileNote(
     event.track = trackName;
   }
 
+  if (tuplet) {
+    event.tuplet = true;
+  }
+
+  if (gate !== undefined && gate !== 1) {
+    event.gate = duration * gate;
+  }
+
   if (instrument.gain !== undefined) {
     event.gain = instrument.gain;
   }
@@ -248,25 +592,42 @@ function compileNote(
     event.adsr = buildADSR(instrument);
   }
 
-  events.push(event);
-  return currentTime + duration;
+  return event;
 }
 
 /**
- * Compile a rest into an event
+ * Parse a pitch string, filling in the accidental from the active key signature.
  */
-function compileRest(
-  rest: RestNode,
-  currentTime: number,
+function resolvePitch(pitchStr: string, context: CompilerContext): Pitch {
+  return applyKeySignature(parsePitch(pitchStr), context.key);
+}
+
+/**
+ * MIDI note of a pitch including its cent offset (e.g., 69.15 for A4+15c).
+ */
+function detunedMidi(pitch: Pitch): number {
+  return pitchToMidi(pitch) + (pitch.cents ?? 0) / 100;
+}
+
+/**
+ * Find the value of a name: a parameter of the pattern being expanded, or else a constant.
+ */
+function lookupBinding(name: string, context: CompilerContext): BoundArgument | undefined {
+  return context.bindings.get(name) ?? context.constants.get(name);
+}
+
+/**
+ * Build a rest event.
+ */
+function createRestEvent(
+  position: number,
+  duration: number,
   instrument: InstDirective,
   trackName: string | undefined,
-  events: SynthEvent[],
-  context: CompilerContext
-): number {
-  const duration = parseDurationToSeconds(rest.duration, context.bpm);
-
+  tuplet: boolean
+): SynthEvent {
   const event: SynthEvent = {
-    t: currentTime,
+    t: position,
     dur: duration,
     kind: 'rest',
     midi: null,
@@ -280,8 +641,294 @@ function compileRest(
     event.track = trackName;
   }
 
-  events.push(event);
-  return currentTime + duration;
+  if (tuplet) {
+    event.tuplet = true;
+  }
+
+  return event;
+}
+
+/**
+ * Roll the dice for a note or chord with a probability.
+ * The shared stream is only drawn from when a probability is given,
+ * so adding p= to one note does not change other random features.
+ * @returns Whether the note plays
+ */
+function rollProbability(probability: number | undefined, context: CompilerContext): boolean {
+  return probability === undefined || context.random() < probability;
+}
+
+/**
+ * Look up the argument bound to a pattern parameter (or pitch constant) and check its type.
+ * @throws DSLError (at the parameter) if the argument has the wrong type
+ */
+function bindParameter(
+  ref: ParameterRef,
+  expected: PatternArgument['type'],
+  context: CompilerContext
+): BoundArgument {
+  const bound = lookupBinding(ref.name, context);
+  if (!bound) {
+    throw new DSLError(`Parameter '${ref.name}' has no argument`, ref.line, ref.column);
+  }
+  const { argument } = bound;
+  if (argument.type !== expected) {
+    throw new DSLError(
+      `Parameter '${ref.name}' is used as a ${expected} but was given ${argument.type} ${argument.value} (line ${argument.line}, column ${argument.column})`,
+      ref.line,
+      ref.column
+    );
+  }
+  return bound;
+}
+
+/**
+ * Resolve a written pitch or pitch parameter to a MIDI note (before transposition).
+ * @returns MIDI note (fractional when the pitch has a cent offset) and a label for error messages
+ */
+function resolvePitchValue(
+  pitch: string | ParameterRef,
+  context: CompilerContext
+): { midi: number; label: string } {
+  if (typeof pitch === 'string') {
+    return { midi: detunedMidi(resolvePitch(pitch, context)), label: pitch };
+  }
+
+  const bound = bindParameter(pitch, 'pitch', context);
+  const offset = bound.offset + (pitch.offset ?? 0);
+  const interval = offset > 0 ? `+${offset}` : offset < 0 ? `${offset}` : '';
+  return {
+    midi: detunedMidi(resolvePitch(bound.argument.value, context)) + offset,
+    label: `${bound.argument.value}${interval}`,
+  };
+}
+
+/**
+ * Resolve a written velocity or velocity parameter.
+ * @throws DSLError if a bound velocity is outside 0-1
+ */
+function resolveVelocity(velocity: number | ParameterRef | undefined, context: CompilerContext): number {
+  if (velocity === undefined) {
+    return DEFAULT_VELOCITY;
+  }
+  if (typeof velocity === 'number') {
+    return velocity;
+  }
+
+  const value = parseFloat(bindParameter(velocity, 'number', context).argument.value);
+  if (value < 0 || value > 1) {
+    throw new DSLError(
+      `Invalid velocity: ${value}. Must be between 0 and 1`,
+      velocity.line,
+      velocity.column
+    );
+  }
+  return value;
+}
+
+/**
+ * Apply the active transposition to a MIDI note.
+ * @throws DSLError (at the note) if the result leaves the MIDI range
+ */
+function transposeMidi(
+  midi: number,
+  pitchStr: string,
+  node: { line: number; column: number },
+  context: CompilerContext
+): number {
+  const transposed = midi + context.transpose;
+  if (transposed < MIN_MIDI || transposed > MAX_MIDI) {
+    const shift = context.transpose > 0 ? `+${context.transpose}` : `${context.transpose}`;
+    const description = context.transpose !== 0
+      ? `${pitchStr} transposed by ${shift} semitones gives MIDI ${transposed}`
+      : `${pitchStr} is MIDI ${transposed}`;
+    throw new DSLError(
+      `${description}, outside the MIDI range (${MIN_MIDI}-${MAX_MIDI})`,
+      node.line,
+      node.column
+    );
+  }
+  return transposed;
+}
+
+/**
+ * Resolve a duration (or duration parameter) to a length in whole notes,
+ * scaled by enclosing tuplets and stretched pattern uses.
+ * @returns Length and whether the note belongs to a tuplet
+ */
+function resolveLength(
+  durationValue: string | ParameterRef,
+  context: CompilerContext
+): { length: number; tuplet: boolean } {
+  const durationStr = typeof durationValue === 'string'
+    ? durationValue
+    : bindParameter(durationValue, 'duration', context).argument.value;
+  const duration = parseDuration(durationStr);
+  return {
+    length: durationToWholeNotes(duration) * context.tupletScale * context.stretch,
+    tuplet: duration.tuplet === true || context.tupletScale !== 1,
+  };
+}
+
+/**
+ * Resolve a duration plus its tied continuations into one length.
+ * @returns Combined length and whether any part belongs to a tuplet
+ */
+function resolveTiedLength(
+  durationValue: string | ParameterRef,
+  ties: NoteTie[] | undefined,
+  context: CompilerContext
+): { length: number; tuplet: boolean } {
+  const resolved = resolveLength(durationValue, context);
+  for (const tie of ties ?? []) {
+    const tied = resolveLength(tie.duration, context);
+    resolved.length += tied.length;
+    resolved.tuplet = resolved.tuplet || tied.tuplet;
+  }
+  return resolved;
+}
+
+/**
+ * Compile a note into an event.
+ * Tied durations merge into the same event so the note is not retriggered.
+ */
+function compileNote(
+  note: NoteNode,
+  position: number,
+  instrument: InstDirective,
+  trackName: string | undefined,
+  events: SynthEvent[],
+  context: CompilerContext
+): number {
+  const { length: duration, tuplet } = resolveTiedLength(note.duration, note.ties, context);
+  const { midi: writtenMidi, label } = resolvePitchValue(note.pitch, context);
+
+  for (const tie of note.ties ?? []) {
+    if (tie.pitch !== undefined && detunedMidi(resolvePitch(tie.pitch, context)) !== writtenMidi) {
+      throw new DSLError(
+        `Cannot tie ${label} to ${tie.pitch}: tied notes must have the same pitch`,
+        tie.line,
+        tie.column
+      );
+    }
+  }
+  const midi = transposeMidi(writtenMidi, label, note, context);
+  const articulated = applyArticulations(note.articulations, resolveVelocity(note.velocity, context));
+  const { velocity } = articulated;
+  const gate = resolveGate(note.gate ?? articulated.gate, instrument, context);
+
+  // A note that does not play leaves a rest of the same length
+  if (rollProbability(note.probability, context)) {
+    const event = createNoteEvent(position, duration, midi, velocity, instrument, trackName, tuplet, gate);
+    nudgeEvents([event], note.nudge, context);
+    events.push(event);
+  } else {
+    events.push(createRestEvent(position, duration, instrument, trackName, tuplet));
+  }
+  return position + duration;
+}
+
+/**
+ * Apply articulation marks to a note's velocity and sounding length.
+ * @returns Velocity and gate (fraction of the step), undefined when no mark sets one
+ */
+function applyArticulations(
+  articulations: Articulation[] | undefined,
+  velocity: number
+): { velocity: number; gate?: number } {
+  let gate: number | undefined;
+  for (const articulation of articulations ?? []) {
+    const effect = ARTICULATION_EFFECTS[articulation];
+    gate = effect.gate ?? gate;
+    velocity = Math.min(MAX_VELOCITY, velocity + (effect.velocity ?? 0));
+  }
+  return { velocity, gate };
+}
+
+/**
+ * Record a nudge for note events. Duration nudges are applied in musical time
+ * once every pattern is laid out, so transforms still see the written rhythm;
+ * millisecond nudges are applied after the conversion to seconds.
+ * Events never move before the start.
+ */
+function nudgeEvents(events: SynthEvent[], nudge: Nudge | undefined, context: CompilerContext): void {
+  if (!nudge) {
+    return;
+  }
+  for (const event of events) {
+    if (nudge.unit === 'duration') {
+      context.positionNudges.set(event, nudge.value);
+    } else {
+      context.nudges.set(event, nudge.value / 1000);
+    }
+  }
+}
+
+/**
+ * Pick the gate of a note: its own gate= or articulation first, then the
+ * track, the instrument and finally the global gate directive.
+ * @returns Sounding length as a fraction of the step, undefined for the full length
+ */
+function resolveGate(
+  noteGate: number | undefined,
+  instrument: InstDirective,
+  context: CompilerContext
+): number | undefined {
+  return noteGate ?? context.trackGate ?? instrument.gate ?? context.gate;
+}
+
+/**
+ * Compile a pitch choice: pick one option and play it as a note.
+ * Random choices draw from the shared seeded stream; alternations take the
+ * next option each time they are played (e.g., on each pass of a repeat).
+ */
+function compileChoice(
+  choice: ChoiceNode,
+  position: number,
+  instrument: InstDirective,
+  trackName: string | undefined,
+  events: SynthEvent[],
+  context: CompilerContext
+): number {
+  let index: number;
+  if (choice.mode === 'random') {
+    index = randomIndex(context.random, choice.options.length);
+  } else {
+    const pass = context.cycles.get(choice) ?? 0;
+    context.cycles.set(choice, pass + 1);
+    index = pass % choice.options.length;
+  }
+
+  const note: NoteNode = {
+    type: 'note',
+    pitch: choice.options[index],
+    duration: choice.duration,
+    velocity: choice.velocity,
+    probability: choice.probability,
+    gate: choice.gate,
+    nudge: choice.nudge,
+    articulations: choice.articulations,
+    line: choice.line,
+    column: choice.column,
+  };
+  return compileNote(note, position, instrument, trackName, events, context);
+}
+
+/**
+ * Compile a rest into an event
+ */
+function compileRest(
+  rest: RestNode,
+  position: number,
+  instrument: InstDirective,
+  trackName: string | undefined,
+  events: SynthEvent[],
+  context: CompilerContext
+): number {
+  const { length: duration, tuplet } = resolveLength(rest.duration, context);
+
+  events.push(createRestEvent(position, duration, instrument, trackName, tuplet));
+  return position + duration;
 }
 
 /**
@@ -289,47 +936,229 @@ function compileRest(
  */
 function compileChord(
   chord: ChordNode,
-  currentTime: number,
+  position: number,
   instrument: InstDirective,
   trackName: string | undefined,
   events: SynthEvent[],
   context: CompilerContext
 ): number {
-  const duration = parseDurationToSeconds(chord.duration, context.bpm);
-  const velocity = chord.velocity ?? DEFAULT_VELOCITY;
-
-  for (const pitchStr of chord.pitches) {
-    const pitch = parsePitch(pitchStr);
-    const midi = pitchToMidi(pitch);
-    const freq = midiToFrequency(midi);
-
-    const event: SynthEvent = {
-      t: currentTime,
-      dur: duration,
-      kind: 'note',
-      midi,
-      freq,
-      vel: velocity,
-      inst: instrument.name,
-      waveform: instrument.waveform,
-    };
+  const { length: duration, tuplet } = resolveTiedLength(chord.duration, chord.ties, context);
+  const articulated = applyArticulations(chord.articulations, resolveVelocity(chord.velocity, context));
+  const { velocity } = articulated;
+  const gate = resolveGate(chord.gate ?? articulated.gate, instrument, context);
 
-    if (trackName) {
-      event.track = trackName;
-    }
+  // Pitches expanded from a chord symbol are already spelled; the key does not apply
+  let midis = chord.pitches.map(pitchValue => {
+    const { midi, label } = chord.symbol && typeof pitchValue === 'string'
+      ? { midi: detunedMidi(parsePitch(pitchValue)), label: pitchValue }
+      : resolvePitchValue(pitchValue, context);
+    return transposeMidi(midi, label, chord, context);
+  });
 
-    if (instrument.gain !== undefined) {
-      event.gain = instrument.gain;
+  if (!rollProbability(chord.probability, context)) {
+    events.push(createRestEvent(position, duration, instrument, trackName, tuplet));
+    return position + duration;
+  }
+
+  // Explicit voicing wins; otherwise a voicelead block moves the chord near the previous one
+  if (chord.voicing) {
+    midis = applyVoicing(midis, chord.voicing);
+  } else if (context.voiceLead) {
+    midis = voiceLead(midis, context.voiceLead.previous);
+  }
+  if (context.voiceLead) {
+    context.voiceLead.previous = midis;
+  }
+  checkVoicedRange(midis, chord);
+
+  const firstEvent = events.length;
+  if (context.arpeggio) {
+    compileArpeggio(midis, chord, position, duration, velocity, gate, instrument, trackName, tuplet, context.arpeggio, events);
+  } else {
+    for (const midi of midis) {
+      events.push(createNoteEvent(position, duration, midi, velocity, instrument, trackName, tuplet, gate));
     }
+  }
+  nudgeEvents(events.slice(firstEvent), chord.nudge, context);
+
+  return position + duration;
+}
 
-    if (instrument.adsr) {
-      event.adsr = buildADSR(instrument);
+/**
+ * Check that a voiced chord stays inside the MIDI range.
+ * Inversions, open voicings and voice leading can move notes past the written ones.
+ * @throws DSLError (at the chord) if a note leaves the MIDI range
+ */
+function checkVoicedRange(midis: number[], chord: ChordNode): void {
+  for (const midi of midis) {
+    if (midi < MIN_MIDI || midi > MAX_MIDI) {
+      throw new DSLError(
+        `Chord voicing gives MIDI ${Math.round(midi)}, outside the MIDI range (${MIN_MIDI}-${MAX_MIDI})`,
+        chord.line,
+        chord.column
+      );
     }
+  }
+}
 
-    events.push(event);
+/**
+ * Order the notes an arpeggiator steps through, spread over the configured octaves.
+ * Random mode uses the ascending order as its pool.
+ * @throws DSLError (at the chord) if the octaves take a note past the MIDI range
+ */
+function arpeggioOrder(
+  midis: number[],
+  arpeggio: ActiveArpeggio,
+  node: { line: number; column: number }
+): number[] {
+  const notes: number[] = [];
+  for (let octave = 0; octave < arpeggio.octaves; octave++) {
+    notes.push(...midis.map(midi => midi + octave * 12));
+  }
+
+  const highest = Math.max(...notes);
+  if (highest > MAX_MIDI) {
+    throw new DSLError(
+      `arp octaves=${arpeggio.octaves} takes MIDI ${highest - (arpeggio.octaves - 1) * 12} up to MIDI ${highest}, outside the MIDI range (${MIN_MIDI}-${MAX_MIDI})`,
+      node.line,
+      node.column
+    );
+  }
+
+  if (arpeggio.mode === 'as-played') {
+    return notes;
+  }
+
+  const ascending = notes.sort((a, b) => a - b);
+  switch (arpeggio.mode) {
+    case 'down':
+      return ascending.reverse();
+    case 'updown':
+      // Up then back down without repeating the top and bottom notes
+      return ascending.concat(ascending.slice(1, -1).reverse());
+    default:
+      return ascending;
   }
+}
+
+/**
+ * Play a chord as a stream of single notes, one every arpeggio step,
+ * for as long as the chord lasts. The last step is cut short if needed.
+ */
+function compileArpeggio(
+  midis: number[],
+  node: { line: number; column: number },
+  position: number,
+  duration: number,
+  velocity: number,
+  gate: number | undefined,
+  instrument: InstDirective,
+  trackName: string | undefined,
+  tuplet: boolean,
+  arpeggio: ActiveArpeggio,
+  events: SynthEvent[]
+): void {
+  const order = arpeggioOrder(midis, arpeggio, node);
+  if (order.length === 0) {
+    return;
+  }
+
+  const end = position + duration;
+  const stepTuplet = tuplet || arpeggio.tuplet;
+  // Tolerance keeps float error from adding a sliver of a step
+  const steps = Math.ceil(duration / arpeggio.rate - 1e-9);
+
+  for (let step = 0; step < steps; step++) {
+    const start = position + step * arpeggio.rate;
+    const midi = arpeggio.mode === 'random'
+      ? order[randomIndex(arpeggio.random, order.length)]
+      : order[step % order.length];
+    const stepDuration = Math.min(arpeggio.rate, end - start);
+    events.push(createNoteEvent(start, stepDuration, midi, velocity, instrument, trackName, stepTuplet, gate));
+  }
+}
+
+/**
+ * Record a tempo change at the current position.
+ * Tempo changes take no time themselves; they feed the global tempo map.
+ */
+function compileTempoChange(
+  change: TempoChange,
+  position: number,
+  context: CompilerContext
+): number {
+  context.tempoChanges.push({ change, position });
+  return position;
+}
+
+/**
+ * Compile a tuplet block: its items are squeezed so that `count` notes
+ * take the time of `span` notes (e.g., three 1/8 notes in the time of two).
+ */
+function compileTupletBlock(
+  tuplet: TupletBlock,
+  position: number,
+  instrument: InstDirective,
+  trackName: string | undefined,
+  context: CompilerContext,
+  events: SynthEvent[]
+): number {
+  const outerScale = context.tupletScale;
+  context.tupletScale = outerScale * (tuplet.span / tuplet.count);
+
+  const endPosition = compileSequenceItems(tuplet.items, position, instrument, trackName, context, events);
+  context.tupletScale = outerScale;
+
+  return endPosition;
+}
+
+/**
+ * Compile a voicelead block: chords inside it are re-voiced to stay close
+ * to the chord before them, starting from the first chord as written.
+ */
+function compileVoiceLeadBlock(
+  block: VoiceLeadBlock,
+  position: number,
+  instrument: InstDirective,
+  trackName: string | undefined,
+  context: CompilerContext,
+  events: SynthEvent[]
+): number {
+  const outerVoiceLead = context.voiceLead;
+  context.voiceLead = { previous: [] };
+
+  const endPosition = compileSequenceItems(block.items, position, instrument, trackName, context, events);
+  context.voiceLead = outerVoiceLead;
 
-  return currentTime + duration;
+  return endPosition;
+}
+
+/**
+ * Compile an arp block: chords inside it are played as note streams.
+ * Notes and rests inside the block play as written.
+ */
+function compileArpBlock(
+  block: ArpBlock,
+  position: number,
+  instrument: InstDirective,
+  trackName: string | undefined,
+  context: CompilerContext,
+  events: SynthEvent[]
+): number {
+  const outerArpeggio = context.arpeggio;
+  const rate = resolveLength(block.rate, context);
+  context.arpeggio = {
+    mode: block.mode,
+    rate: rate.length,
+    tuplet: rate.tuplet,
+    octaves: block.octaves,
+    random: createRandom(block.seed ?? context.seed),
+  };
+
+  const endPosition = compileSequenceItems(block.items, position, instrument, trackName, context, events);
+  context.arpeggio = outerArpeggio;
+
+  return endPosition;
 }
 
 /**
@@ -337,13 +1166,13 @@ function compileChord(
  */
 function compileRepeatBlock(
   repeat: RepeatBlock,
-  currentTime: number,
+  position: number,
   instrument: InstDirective,
   trackName: string | undefined,
   context: CompilerContext,
   events: SynthEvent[]
 ): number {
-  let time = currentTime;
+  let time = position;
 
   for (let i = 0; i < repeat.count; i++) {
     time = compileSequenceItems(repeat.items, time, instrument, trackName, context, events);
@@ -353,11 +1182,87 @@ function compileRepeatBlock(
 }
 
 /**
- * Compile a pattern use by looking up and expanding the pattern
+ * Compile a Euclidean rhythm: the hit plays on each step the pattern marks,
+ * and the other steps become rests of the same length.
+ */
+function compileEuclidBlock(
+  block: EuclidBlock,
+  position: number,
+  instrument: InstDirective,
+  trackName: string | undefined,
+  context: CompilerContext,
+  events: SynthEvent[]
+): number {
+  const rest: RestNode = { type: 'rest', duration: block.hit.duration, line: block.line, column: block.column };
+  let time = position;
+
+  for (const isHit of euclid(block.hits, block.steps, block.rotation)) {
+    time = compileSequenceItem(isHit ? block.hit : rest, time, instrument, trackName, context, events);
+  }
+
+  return time;
+}
+
+/**
+ * Compile a step string: each hit becomes a note held through the ties that
+ * follow it, and each rest step a rest of one step.
+ */
+function compileStepsBlock(
+  block: StepsBlock,
+  position: number,
+  instrument: InstDirective,
+  trackName: string | undefined,
+  context: CompilerContext,
+  events: SynthEvent[]
+): number {
+  let step: string;
+  if (block.step === undefined) {
+    step = `1/${context.grid}`;
+  } else if (typeof block.step === 'string') {
+    step = block.step;
+  } else {
+    step = bindParameter(block.step, 'duration', context).argument.value;
+  }
+
+  const { line, column } = block;
+  const rest: RestNode = { type: 'rest', duration: step, line, column };
+  let time = position;
+
+  // A run is one hit or rest followed by its ties
+  for (const run of block.pattern.match(/[xX.]-*/g) ?? []) {
+    if (run[0] === '.') {
+      for (let i = 0; i < run.length; i++) {
+        time = compileRest(rest, time, instrument, trackName, events, context);
+      }
+      continue;
+    }
+
+    const note: NoteNode = {
+      type: 'note',
+      pitch: block.pitch,
+      duration: step,
+      velocity: run[0] === 'X' ? block.accent ?? ACCENT_VELOCITY : block.velocity,
+      probability: block.probability,
+      gate: block.gate,
+      line,
+      column,
+    };
+    if (run.length > 1) {
+      note.ties = Array.from({ length: run.length - 1 }, () => ({ duration: step, line, column }));
+    }
+    time = compileNote(note, time, instrument, trackName, events, context);
+  }
+
+  return time;
+}
+
+/**
+ * Compile a pattern use by looking up and expanding the pattern.
+ * Transpositions add up through nested pattern uses.
  */
 function compilePatternUse(
   patternUse: PatternUse,
-  currentTime: number,
+  position: number,
   instrument: InstDirective,
   trackName: string | undefined,
   context: CompilerContext,
@@ -374,15 +1279,179 @@ function compilePatternUse(
     );
   }
 
-  let time = currentTime;
+  const bindings = bindPatternArguments(pattern, patternUse, context);
+  const outerTranspose = context.transpose;
+  const outerBindings = context.bindings;
+  const outerStretch = context.stretch;
+  context.transpose = outerTranspose + (patternUse.transpose ?? 0);
+  context.bindings = bindings;
+  context.stretch = outerStretch * (patternUse.stretch ?? 1);
+
+  let time = position;
+  const transforms = patternUse.transforms ?? [];
+  // One generator per shuffle, so each repetition gets a new order
+  const randoms = transforms.map(transform => createRandom(transform.seed ?? context.seed));
 
   for (let i = 0; i < patternUse.repetitions; i++) {
-    time = compileSequenceItems(pattern.items, time, instrument, trackName, context, events);
+    if (transforms.length === 0) {
+      time = compileSequenceItems(pattern.items, time, instrument, trackName, context, events);
+      continue;
+    }
+
+    const expanded: SynthEvent[] = [];
+    const end = compileSequenceItems(pattern.items, time, instrument, trackName, context, expanded);
+    events.push(...transformPattern(expanded, time, end, transforms, randoms, context));
+    time = end;
   }
+  context.transpose = outerTranspose;
+  context.bindings = outerBindings;
+  context.stretch = outerStretch;
 
   return time;
 }
 
+/**
+ * Apply pattern transforms to one expanded repetition of a pattern.
+ * The events are grouped into steps, reordered or inverted, and laid out again from the start.
+ * @returns The transformed events
+ */
+function transformPattern(
+  expanded: SynthEvent[],
+  start: number,
+  end: number,
+  transforms: PatternTransform[],
+  randoms: RandomGenerator[],
+  context: CompilerContext
+): SynthEvent[] {
+  let steps = groupSteps(expanded, end);
+
+  transforms.forEach((transform, index) => {
+    switch (transform.kind) {
+      case 'reverse':
+        steps = [...steps].reverse();
+        break;
+      case 'rotate': {
+        const shift = steps.length > 0 ? ((transform.steps! % steps.length) + steps.length) % steps.length : 0;
+        steps = [...steps.slice(shift), ...steps.slice(0, shift)];
+        break;
+      }
+      case 'shuffle':
+        steps = shuffle(randoms[index], steps);
+        break;
+      case 'invert':
+        invertSteps(steps, transform, context);
+        break;
+    }
+  });
+
+  let position = start;
+  for (const step of steps) {
+    for (const event of step.events) {
+      event.t += position - step.start;
+    }
+    position += step.length;
+  }
+
+  return steps.flatMap(step => step.events);
+}
+
+/**
+ * Group events into steps of events that start at the same position.
+ */
+function groupSteps(events: SynthEvent[], end: number): EventStep[] {
+  const sorted = [...events].sort((a, b) => a.t - b.t);
+  const steps: EventStep[] = [];
+
+  for (const event of sorted) {
+    const last = steps[steps.length - 1];
+    if (last && Math.abs(event.t - last.start) < 1e-9) {
+      last.events.push(event);
+    } else {
+      steps.push({ events: [event], start: event.t, length: 0 });
+    }
+  }
+
+  steps.forEach((step, index) => {
+    const next = index + 1 < steps.length ? steps[index + 1].start : end;
+    step.length = next - step.start;
+  });
+
+  return steps;
+}
+
+/**
+ * Mirror every note of the steps around the transform's axis.
+ * The axis is shifted by the active transposition, so the pattern is inverted before it is transposed.
+ * @throws DSLError (at the transform) if a note leaves the MIDI range
+ */
+function invertSteps(steps: EventStep[], transform: PatternTransform, context: CompilerContext): void {
+  const axis = pitchToMidi(resolvePitch(transform.axis!, context)) + context.transpose;
+
+  for (const step of steps) {
+    for (const event of step.events) {
+      if (event.midi === null || event.freq === null) continue;
+
+      // Keep any cent offset, mirrored along with the note
+      const detune = frequencyToMidi(event.freq) - event.midi;
+      const midi = 2 * axis - event.midi;
+      if (midi < MIN_MIDI || midi > MAX_MIDI) {
+        throw new DSLError(
+          `Inverting around ${transform.axis} gives MIDI ${midi}, outside the MIDI range (${MIN_MIDI}-${MAX_MIDI})`,
+          transform.line,
+          transform.column
+        );
+      }
+      event.midi = midi;
+      event.freq = midiToFrequency(midi - detune);
+    }
+  }
+}
+
+/**
+ * Bind the arguments of a pattern use to the pattern's parameters.
+ * Arguments that name a parameter of the enclosing pattern pass its value on.
+ * @throws DSLError (at the use) if the number of arguments does not match
+ */
+function bindPatternArguments(
+  pattern: PatternDefinition,
+  patternUse: PatternUse,
+  context: CompilerContext
+): Map<string, BoundArgument> {
+  const params = pattern.params ?? [];
+  const args = patternUse.args ?? [];
+
+  if (args.length !== params.length) {
+    const expected = params.length === 0
+      ? 'takes no arguments'
+      : `expects ${params.length} argument${params.length === 1 ? '' : 's'} (${params.map(p => p.name).join(', ')})`;
+    throw new DSLError(
+      `Pattern '${pattern.name}' ${expected}, got ${args.length}`,
+      patternUse.line,
+      patternUse.column
+    );
+  }
+
+  const bindings = new Map<string, BoundArgument>();
+  params.forEach((param, index) => {
+    const arg = args[index];
+    if (arg.type !== 'param') {
+      bindings.set(param.name, { argument: arg, offset: 0 });
+      return;
+    }
+
+    const outer = lookupBinding(arg.name, context);
+    if (!outer) {
+      throw new DSLError(`Parameter '${arg.name}' has no argument`, arg.line, arg.column);
+    }
+    if (arg.offset !== undefined) {
+      bindParameter(arg, 'pitch', context); // Intervals only apply to pitches
+    }
+    bindings.set(param.name, { argument: outer.argument, offset: outer.offset + (arg.offset ?? 0) });
+  });
+
+  return bindings;
+}
+
 /**
  * Calculate the total duration of all events.
  * @param events - Array of SynthEvents
@@ -418,6 +1487,34 @@ export function generateSummary(result: CompilationResult): string {
     `Events: ${result.eventCount} (${noteCount} notes, ${restCount} rests)`,
   ];
 
+  // Add tempo changes if the tempo is not constant
+  if (result.tempoMap && hasTempoChanges(result.tempoMap)) {
+    const tempos = [result.tempoMap.segments[0].startBpm];
+    for (const segment of result.tempoMap.segments) {
+      const bpm = +segment.endBpm.toFixed(2);
+      if (bpm !== tempos[tempos.length - 1]) {
+        tempos.push(bpm);
+      }
+    }
+    lines.push(`Tempo Changes: ${tempos.join(' → ')} BPM`);
+  }
+
+  if (result.sections.length > 0) {
+    const sections = result.sections.map(section => `${section.name} (${section.start.toFixed(2)}s)`);
+    lines.push(`Sections: ${sections.join(', ')}`);
+  }
+
+  const trackLoops = new Map<string, number>();
+  for (const event of result.events) {
+    if (event.loop !== undefined) {
+      trackLoops.set(event.track ?? 'default', event.loop);
+    }
+  }
+  if (trackLoops.size > 0) {
+    const loops = Array.from(trackLoops, ([track, loop]) => `${track} (${loop.toFixed(2)}s)`);
+    lines.push(`Track Loops: ${loops.join(', ')}`);
+  }
+
   // Add global settings info if available
   if (result.globalSettings) {
     if (result.globalSettings.swing > 0) {
@@ -427,6 +1524,24 @@ export function generateSummary(result: CompilationResult): string {
       lines.push(`Loop: ${result.globalSettings.loop} bars`);
     }
     lines.push(`Grid: 1/${result.globalSettings.grid}`);
+    const { numerator, denominator } = result.globalSettings.timeSignature;
+    lines.push(`Time Signature: ${numerator}/${denominator}`);
+    if (result.globalSettings.key) {
+      lines.push(`Key: ${result.globalSettings.key.tonic} ${result.globalSettings.key.mode}`);
+    }
+    // Always show the seed in use, so a run can be reproduced
+    lines.push(result.globalSettings.seed !== undefined
+      ? `Seed: ${result.globalSettings.seed}`
+      : `Seed: ${DEFAULT_SEED} (default)`);
+    if (result.globalSettings.gate !== undefined) {
+      lines.push(`Gate: ${result.globalSettings.gate}`);
+    }
+    if (result.globalSettings.tuning) {
+      const { tuning } = result.globalSettings;
+      const a4 = tunedFrequency(69, tuning);
+      const reference = a4 !== null ? ` (A4 = ${+a4.toFixed(2)} Hz)` : '';
+      lines.push(`Tuning: ${tuning.scale.description || 'Scala scale'}${reference}`);
+    }
   }
 
   return lines.join('\n');
@@ -450,19 +1565,31 @@ export function formatEventsAsJson(events: SynthEvent[]): string {
 export function compileFromSource(source: string): CompilationResult {
   const tokens = tokenize(source);
   const ast = parse(tokens);
-  let events = compile(ast);
+  const program = compileProgram(ast);
+  let events = program.events;
 
   // Apply swing transform if swing is enabled
-  const { swing, grid } = ast.globalSettings;
+  const { swing, grid, timeSignature } = ast.globalSettings;
   if (swing > 0) {
-    events = applySwing(events, swing, grid, ast.bpm.value);
+    events = applySwing(events, swing, grid, ast.bpm.value, timeSignature, program.tempoMap);
   }
 
+  // Apply humanize jitter last, on top of swing
+  const loopLength = ast.globalSettings.loop * timeSignature.numerator / timeSignature.denominator;
+  events = applyHumanize(
+    events,
+    ast.globalSettings.humanize,
+    ast.globalSettings.seed ?? DEFAULT_SEED,
+    positionToSeconds(program.tempoMap, loopLength)
+  );
+
   return {
     bpm: ast.bpm.value,
     totalDuration: calculateTotalDuration(events),
     eventCount: events.length,
     events,
     globalSettings: ast.globalSettings,
+    tempoMap: program.tempoMap,
+    sections: program.sections,
   };
 }
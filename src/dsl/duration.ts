@@ -1,16 +1,20 @@
 /**
  * Duration Parsing Module
- * Handles parsing of duration fractions (e.g., "1/4", "3/16") and conversion to seconds.
+ * Handles parsing of duration fractions (e.g., "1/4", "3/16", "1/8t", "1/4.") and conversion to seconds.
  */
 
 export interface Duration {
   numerator: number;
   denominator: number;
+  tuplet?: boolean;    // True for triplet shorthand durations (e.g., "1/8t")
 }
 
 /**
  * Parse a duration string into a fraction.
- * @param str - Duration string like "1/4", "1/8", "3/16"
+ * A trailing "t" marks a triplet: three of them fill the time of two,
+ * so "1/8t" lasts 2/24 (= 1/12) of a whole note.
+ * Trailing dots lengthen the value: "1/4." = 3/8, "1/4.." = 7/16.
+ * @param str - Duration string like "1/4", "1/8", "3/16", "1/8t", "1/4."
  * @returns Duration object with numerator and denominator
  * @throws Error if the duration format is invalid
  */
@@ -24,7 +28,17 @@ export function parseDuration(str: string): Duration {
     throw new Error('Invalid duration: empty string');
   }
 
-  const parts = trimmed.split('/');
+  // Strip dots first, then the triplet marker (e.g., "1/8t." = dotted triplet eighth)
+  const undotted = trimmed.replace(/\.+$/, '');
+  const dots = trimmed.length - undotted.length;
+  if (dots > 2) {
+    throw new Error(`Invalid duration: at most two dots allowed, got "${str}"`);
+  }
+
+  const isTriplet = undotted.endsWith('t');
+  const fraction = isTriplet ? undotted.slice(0, -1) : undotted;
+
+  const parts = fraction.split('/');
   if (parts.length !== 2) {
     throw new Error(`Invalid duration format: expected "n/d", got "${str}"`);
   }
@@ -48,7 +62,38 @@ export function parseDuration(str: string): Duration {
     throw new Error(`Invalid duration: denominator must be positive, got ${denominator}`);
   }
 
-  return { numerator, denominator };
+  // One dot adds half the value (x 3/2), two dots add half plus a quarter (x 7/4)
+  const dotNumerator = [1, 3, 7][dots];
+  const dotDenominator = [1, 2, 4][dots];
+
+  if (isTriplet) {
+    return {
+      numerator: numerator * 2 * dotNumerator,
+      denominator: denominator * 3 * dotDenominator,
+      tuplet: true,
+    };
+  }
+
+  return { numerator: numerator * dotNumerator, denominator: denominator * dotDenominator };
+}
+
+/**
+ * Write a duration fraction as a duration string, in lowest terms.
+ * Triplet durations are written with the "t" marker, so the result parses back
+ * to the same duration.
+ * @param duration - Duration object with numerator and denominator
+ * @returns Duration string like "3/8" or "1/4t"
+ */
+export function formatDuration(duration: Duration): string {
+  // "n/dt" lasts 2n/3d, so a triplet fraction is written as 3/2 of its length
+  const numerator = duration.tuplet ? duration.numerator * 3 : duration.numerator;
+  const denominator = duration.tuplet ? duration.denominator * 2 : duration.denominator;
+  const divisor = greatestCommonDivisor(numerator, denominator);
+  return `${numerator / divisor}/${denominator / divisor}${duration.tuplet ? 't' : ''}`;
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
 }
 
 /**
@@ -80,6 +125,16 @@ export function durationToSeconds(duration: Duration, bpm: number): number {
   return seconds;
 }
 
+/**
+ * Convert a duration fraction to a length in whole notes.
+ * Whole notes are the unit of musical position used with tempo maps.
+ * @param duration - Duration object with numerator and denominator
+ * @returns Length in whole notes (e.g., 1/4 -> 0.25)
+ */
+export function durationToWholeNotes(duration: Duration): number {
+  return duration.numerator / duration.denominator;
+}
+
 /**
  * Convenience function to parse a duration string and convert to seconds.
  * @param str - Duration string like "1/4", "1/8"
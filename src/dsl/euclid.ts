@@ -0,0 +1,38 @@
+/**
+ * Euclidean Rhythm Module
+ * Spreads a number of hits as evenly as possible over a number of steps
+ * (Bjorklund's algorithm), e.g. 3 hits over 8 steps gives x..x..x.
+ */
+
+/**
+ * Distribute hits over steps with Bjorklund's algorithm.
+ * @param hits - Number of hits (0 to steps)
+ * @param steps - Number of steps (at least 1)
+ * @param rotation - Steps to rotate the pattern left; negative rotates right (default 0)
+ * @returns One entry per step, true where a hit falls
+ * @throws Error if the counts are out of range
+ */
+export function euclid(hits: number, steps: number, rotation: number = 0): boolean[] {
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error(`Invalid step count: ${steps}. Must be a positive integer`);
+  }
+  if (!Number.isInteger(hits) || hits < 0 || hits > steps) {
+    throw new Error(`Invalid hit count: ${hits}. Must be between 0 and ${steps}`);
+  }
+
+  // Start with one group per hit and one per gap, then keep pairing the
+  // remainder groups onto the main groups until at most one remainder is left
+  let groups: boolean[][] = Array.from({ length: hits }, () => [true]);
+  let remainders: boolean[][] = Array.from({ length: steps - hits }, () => [false]);
+
+  while (groups.length > 0 && remainders.length > 1) {
+    const count = Math.min(groups.length, remainders.length);
+    const merged = groups.slice(0, count).map((group, i) => [...group, ...remainders[i]]);
+    remainders = groups.length > count ? groups.slice(count) : remainders.slice(count);
+    groups = merged;
+  }
+
+  const pattern = [...groups, ...remainders].flat();
+  const shift = ((rotation % steps) + steps) % steps;
+  return [...pattern.slice(shift), ...pattern.slice(0, shift)];
+}
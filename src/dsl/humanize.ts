@@ -0,0 +1,77 @@
+/**
+ * Humanize Transform Module
+ * Adds small, seeded random offsets to note timing and velocity so quantized
+ * parts sound less mechanical.
+ */
+
+import type { SynthEvent } from './compiler';
+import { createRandom } from './random';
+
+/**
+ * Humanize amounts set by the humanize directive (e.g., humanize time=10 vel=0.05).
+ */
+export interface HumanizeSettings {
+  time: number;        // Largest timing offset in milliseconds, earlier or later
+  velocity: number;    // Largest velocity change, softer or louder
+}
+
+/** Keeps a note pulled back to a loop boundary strictly inside its loop */
+const BOUNDARY_EPSILON = 1e-6;
+
+/**
+ * Apply humanize jitter to the notes of a list of events.
+ *
+ * Each note moves by up to `time` ms and its velocity changes by up to
+ * `velocity`, both drawn from a generator seeded with `seed`, so the same
+ * source always gets the same jitter. Velocities stay within 0-1. A note is
+ * never moved before time 0 or out of the loop pass it was written in.
+ * Rests are left unchanged. A note's own humanize amounts (from its track)
+ * override the global ones.
+ *
+ * @param events - Events sorted by start time
+ * @param settings - Humanize amounts for events without their own (optional)
+ * @param seed - Seed for the jitter
+ * @param loopDuration - Loop length in seconds
+ * @returns New array of SynthEvents with jitter applied
+ */
+export function applyHumanize(
+  events: SynthEvent[],
+  settings: HumanizeSettings | undefined,
+  seed: number,
+  loopDuration: number
+): SynthEvent[] {
+  if (settings === undefined && events.every(event => event.humanize === undefined)) {
+    return events;
+  }
+
+  const random = createRandom(seed);
+
+  const humanized = events.map(event => {
+    if (event.kind !== 'note') {
+      return event;
+    }
+
+    // Draw both offsets for every note so one amount never reshuffles the other
+    const timeJitter = random() * 2 - 1;
+    const velocityJitter = random() * 2 - 1;
+
+    const amounts = event.humanize ?? settings;
+    if (amounts === undefined) {
+      return event;
+    }
+
+    const pass = Math.floor(event.t / loopDuration);
+    const passStart = pass * loopDuration;
+    const passEnd = passStart + loopDuration - BOUNDARY_EPSILON;
+    const t = event.t + timeJitter * amounts.time / 1000;
+    const vel = event.vel + velocityJitter * amounts.velocity;
+
+    return {
+      ...event,
+      t: Math.min(Math.max(t, passStart), Math.max(passEnd, passStart)),
+      vel: Math.min(Math.max(vel, 0), 1),
+    };
+  });
+
+  return humanized.sort((a, b) => a.t - b.t);
+}
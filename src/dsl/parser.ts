@@ -5,21 +5,67 @@
 
 import { TokenType } from './tokenizer';
 import type { Token } from './tokenizer';
+import {
+  createKeySignature,
+  parsePitch,
+  parseScala,
+  parseKeyboardMapping,
+  equalTemperament,
+  linearMapping,
+  createTuning,
+} from './pitch';
+import { expandChordSymbol } from './chord';
+import { parseDuration, formatDuration, durationToWholeNotes } from './duration';
+import type { Duration } from './duration';
+import type { ChordVoicing } from './voicing';
+import type { HumanizeSettings } from './humanize';
+import type { KeySignature, ScalaScale, KeyboardMapping, Tuning } from './pitch';
 
 // AST Node Types
 
+// Reference to a pattern parameter or pitch constant by name (e.g., root, root+7)
+export interface ParameterRef {
+  type: 'param';
+  name: string;
+  offset?: number;     // Semitones added to a pitch parameter (root+7)
+  line: number;
+  column: number;
+}
+
+// Tied continuation of a note or chord: ~ [pitch] <duration>
+export interface NoteTie {
+  pitch?: string;      // Repeated pitch (must match the tied note), if written
+  duration: string;    // e.g., '1/8'
+  line: number;
+  column: number;
+}
+
+// Articulation marks written after a note or chord (stacc or ., ten, legato, >)
+export type Articulation = 'staccato' | 'tenuto' | 'legato' | 'accent';
+
+// Timing offset of a note: nudge=+8ms or nudge=-1/64
+export interface Nudge {
+  value: number;       // Signed offset in milliseconds, or in whole notes for a duration
+  unit: 'ms' | 'duration';
+}
+
 export interface NoteNode {
   type: 'note';
-  pitch: string;       // e.g., 'C4', 'D#3'
-  duration: string;    // e.g., '1/4', '1/8'
-  velocity?: number;   // Optional per-note velocity (0-1)
+  pitch: string | ParameterRef;    // e.g., 'C4', 'D#3'
+  duration: string | ParameterRef; // e.g., '1/4', '1/8'
+  velocity?: number | ParameterRef; // Optional per-note velocity (0-1)
+  probability?: number; // Optional chance (0-1) that the note plays
+  gate?: number;       // Optional sounding length as a fraction of the duration
+  nudge?: Nudge;       // Optional timing offset; the next item still starts on time
+  articulations?: Articulation[];
+  ties?: NoteTie[];    // Optional tied durations held without retriggering
   line: number;
   column: number;
 }
 
 export interface RestNode {
   type: 'rest';
-  duration: string;    // e.g., '1/4', '1/8'
+  duration: string | ParameterRef; // e.g., '1/4', '1/8'
   line: number;
   column: number;
 }
@@ -27,9 +73,31 @@ export interface RestNode {
 // Chord: multiple notes played simultaneously
 export interface ChordNode {
   type: 'chord';
-  pitches: string[];   // e.g., ['C4', 'E4', 'G4']
-  duration: string;    // e.g., '1/4'
-  velocity?: number;   // Optional velocity (0-1)
+  pitches: (string | ParameterRef)[]; // e.g., ['C4', 'E4', 'G4']
+  symbol?: string;     // Chord symbol the pitches were expanded from (e.g., 'Cmaj7')
+  duration: string | ParameterRef; // e.g., '1/4'
+  velocity?: number | ParameterRef; // Optional velocity (0-1)
+  probability?: number; // Optional chance (0-1) that the chord plays
+  gate?: number;       // Optional sounding length as a fraction of the duration
+  nudge?: Nudge;       // Optional timing offset; the next item still starts on time
+  articulations?: Articulation[];
+  ties?: NoteTie[];    // Optional tied durations (duration only)
+  voicing?: ChordVoicing; // Optional voicing modifiers (inv=, drop2, open)
+  line: number;
+  column: number;
+}
+
+// Pitch choice: {C4|E4|G4} picks one pitch at random, <C4 E4 G4> takes the next one on each pass
+export interface ChoiceNode {
+  type: 'choice';
+  mode: 'random' | 'cycle';
+  options: (string | ParameterRef)[];
+  duration: string | ParameterRef;
+  velocity?: number | ParameterRef;
+  probability?: number;
+  gate?: number;
+  nudge?: Nudge;
+  articulations?: Articulation[];
   line: number;
   column: number;
 }
@@ -43,16 +111,119 @@ export interface RepeatBlock {
   column: number;
 }
 
+// Literal argument passed to a parameterized pattern
+export interface PatternArgument {
+  type: 'pitch' | 'number' | 'duration';
+  value: string;       // As written, e.g., 'E2', '0.9', '1/8'
+  line: number;
+  column: number;
+}
+
+export type PatternTransformKind = 'reverse' | 'invert' | 'rotate' | 'shuffle';
+
+// Melodic transformation of a used pattern: reverse, invert=<pitch>, rotate=<n>, shuffle [seed=<n>]
+export interface PatternTransform {
+  kind: PatternTransformKind;
+  axis?: string;       // Pitch to mirror around (invert)
+  steps?: number;      // Steps to rotate left, negative rotates right (rotate)
+  seed?: number;       // Seed for the random order (shuffle)
+  line: number;
+  column: number;
+}
+
 // Pattern use: reference to a defined pattern
 export interface PatternUse {
   type: 'patternUse';
   name: string;        // Pattern name
+  args?: (PatternArgument | ParameterRef)[]; // Arguments for a parameterized pattern
   repetitions: number; // Number of times to use (default 1)
+  transpose?: number;  // Transposition in semitones, including oct= shifts
+  stretch?: number;    // Duration multiplier from *N and /N (2 = half time)
+  transforms?: PatternTransform[]; // Applied in written order to each repetition
+  line: number;
+  column: number;
+}
+
+// Tempo change: tempo <bpm>, accel <bpm> <bars>, rit <bpm> <bars>
+export interface TempoChange {
+  type: 'tempo';
+  mode: 'set' | 'accel' | 'rit';
+  bpm: number;         // Target tempo
+  bars?: number;       // Ramp length in bars (accel/rit only)
+  line: number;
+  column: number;
+}
+
+// Tuplet block: play `count` notes in the time of `span` (e.g., 3:2 = triplets)
+export interface TupletBlock {
+  type: 'tuplet';
+  count: number;       // Number of notes in the group (3 in 3:2)
+  span: number;        // Number of notes of the same value they replace (2 in 3:2)
+  items: SequenceItem[];
+  line: number;
+  column: number;
+}
+
+// Voice-lead block: each chord moves to the inversion nearest the previous chord
+export interface VoiceLeadBlock {
+  type: 'voicelead';
+  items: SequenceItem[];
+  line: number;
+  column: number;
+}
+
+export type ArpMode = 'up' | 'down' | 'updown' | 'random' | 'as-played';
+
+// Arpeggiator block: chords inside it are played as note streams at `rate`
+export interface ArpBlock {
+  type: 'arp';
+  mode: ArpMode;
+  rate: string;        // Step duration, e.g., '1/16'
+  octaves: number;     // Number of octaves the pattern spans (default 1)
+  seed?: number;       // Seed for random mode
+  items: SequenceItem[];
+  line: number;
+  column: number;
+}
+
+// Euclidean rhythm: hits spread evenly over steps, e.g. euclid(3,8) C2 1/16
+export interface EuclidBlock {
+  type: 'euclid';
+  hits: number;
+  steps: number;
+  rotation: number;    // Steps the pattern is rotated left (default 0)
+  hit: NoteNode | ChordNode | ChoiceNode; // Played on each hit; its duration is the step length
+  line: number;
+  column: number;
+}
+
+// Step string: a drum-machine style row, e.g. steps C2 1/16 "x..X-.x."
+export interface StepsBlock {
+  type: 'steps';
+  pitch: string | ParameterRef;
+  step?: string | ParameterRef; // Length of one step; defaults to one grid step
+  pattern: string;     // x = hit, X = accent, . = rest, - = tie (separators removed)
+  velocity?: number | ParameterRef; // Velocity of x hits
+  accent?: number | ParameterRef;   // Velocity of X hits (default 1.0)
+  probability?: number;
+  gate?: number;       // Sounding length of each hit as a fraction of its steps
   line: number;
   column: number;
 }
 
-export type SequenceItem = NoteNode | RestNode | ChordNode | RepeatBlock | PatternUse;
+export type SequenceItem =
+  | NoteNode
+  | RestNode
+  | ChordNode
+  | ChoiceNode
+  | RepeatBlock
+  | PatternUse
+  | TempoChange
+  | TupletBlock
+  | VoiceLeadBlock
+  | ArpBlock
+  | EuclidBlock
+  | StepsBlock;
 
 export interface BpmDirective {
   type: 'bpm';
@@ -96,15 +267,24 @@ export interface InstDirective {
   name: string;
   waveform: string;
   gain?: number;       // Optional gain (0-1)
+  gate?: number;       // Optional sounding length of its notes (fraction of each step)
   adsr?: ADSRParams;   // Optional ADSR envelope
   line: number;
   column: number;
 }
 
+// Parameter declared by a parameterized pattern
+export interface PatternParameter {
+  name: string;
+  line: number;
+  column: number;
+}
+
 // Pattern definition
 export interface PatternDefinition {
   type: 'pattern';
   name: string;
+  params?: PatternParameter[]; // Parameters of a parameterized pattern: pattern name(a, b):
   items: SequenceItem[];
   line: number;
   column: number;
@@ -115,11 +295,40 @@ export interface TrackDefinition {
   type: 'track';
   name: string;
   instrumentName: string;
+  key?: KeySignature;  // Track key signature (overrides the global key)
+  gate?: number;       // Track gate (overrides the instrument and global gate)
+  humanize?: HumanizeSettings; // Track humanize (overrides the global humanize)
+  loop?: number;       // Cycle length in whole notes; the track repeats on its own inside the loop
   items: SequenceItem[];
   line: number;
   column: number;
 }
 
+// Song section: section <name>: followed by track definitions indented under it
+export interface SectionDefinition {
+  type: 'section';
+  name: string;
+  tracks: TrackDefinition[];
+  line: number;
+  column: number;
+}
+
+// One entry of the song order (e.g., verse x2)
+export interface SongEntry {
+  section: string;
+  repetitions: number;
+  line: number;
+  column: number;
+}
+
+// Song order: song: <section> [xN], ...
+export interface SongDefinition {
+  type: 'song';
+  entries: SongEntry[];
+  line: number;
+  column: number;
+}
+
 export interface Sequence {
   type: 'sequence';
   items: SequenceItem[];
@@ -127,11 +336,33 @@ export interface Sequence {
   column: number;
 }
 
+// Time signature: beats per bar over beat unit (e.g., 3/4, 7/8)
+export interface TimeSignature {
+  numerator: number;   // Beats per bar
+  denominator: number; // Beat unit (4 = quarter note, 8 = eighth note)
+}
+
 // Global settings container
 export interface GlobalSettings {
   swing: number;       // Default 0
   loop: number;        // Default 1
   grid: number;        // Default 16
+  timeSignature: TimeSignature; // Default 4/4
+  key?: KeySignature;  // Default none (every accidental written out)
+  seed?: number;       // Default none (random features use DEFAULT_SEED)
+  gate?: number;       // Default none (notes sound for their full length)
+  humanize?: HumanizeSettings; // Default none (events play exactly on time)
+  tuning?: Tuning;     // Default none (12-TET with A4 = 440 Hz)
+}
+
+// Program constant: let <name> = <expression>
+export interface ConstantDefinition {
+  type: 'let';
+  name: string;
+  value: PatternArgument; // Evaluated value, e.g., '0.95', '1/8' or 'E2'
+  offset?: number;     // Semitones added to a pitch constant (let fifth = root + 7)
+  line: number;
+  column: number;
 }
 
 export interface Program {
@@ -140,7 +371,10 @@ export interface Program {
   instrument: InstDirective;
   instruments: InstDirective[];     // Multiple instrument definitions
   patterns: PatternDefinition[];    // Pattern definitions
+  constants: ConstantDefinition[];  // let constants, in definition order
   tracks: TrackDefinition[];        // Track definitions
+  sections: SectionDefinition[];    // Song sections, in definition order
+  song: SongDefinition | null;      // Order the sections play in
   sequence: Sequence | null;
   globalSettings: GlobalSettings;
 }
@@ -150,6 +384,106 @@ export type AST = Program;
 // Valid waveform types
 const VALID_WAVEFORMS = ['sine', 'square', 'sawtooth', 'triangle'];
 
+// Words that can name instruments, patterns and tracks, keywords included
+const NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+// Time signatures are plain beats/beat unit, without the dots or triplet marker of durations
+const TIME_SIGNATURE_PATTERN = /^\d+\/\d+$/;
+
+// Valid arpeggiator modes
+const ARP_MODES: ArpMode[] = ['up', 'down', 'updown', 'random', 'as-played'];
+const PATTERN_TRANSFORMS: string[] = ['reverse', 'invert', 'rotate', 'shuffle'];
+
+// Articulation words and the marks they stand for
+const ARTICULATION_WORDS: Record<string, Articulation> = {
+  'stacc': 'staccato',
+  'staccato': 'staccato',
+  'ten': 'tenuto',
+  'tenuto': 'tenuto',
+  'legato': 'legato',
+};
+
+/**
+ * Value of a constant expression while it is being evaluated.
+ * A pitch is either written out or named by a constant, plus an interval.
+ */
+type Operand =
+  | { type: 'number'; value: number }
+  | { type: 'duration'; value: Duration }
+  | { type: 'pitch'; pitch?: string; name?: string; offset: number };
+
+const OPERATOR_TOKENS: TokenType[] = [TokenType.PLUS, TokenType.MINUS, TokenType.STAR, TokenType.SLASH];
+
+/**
+ * Apply an arithmetic operator to two operands.
+ * Numbers combine freely; pitches move by whole semitones (root + 7);
+ * durations add up and scale by whole numbers (len * 2, len / 2).
+ * @throws Error if the operator does not apply to the operand types
+ */
+function applyOperator(operator: string, left: Operand, right: Operand): Operand {
+  if (left.type === 'number' && right.type === 'number') {
+    if (operator === '/' && right.value === 0) {
+      throw new Error('Division by zero');
+    }
+    const value = operator === '+' ? left.value + right.value
+      : operator === '-' ? left.value - right.value
+      : operator === '*' ? left.value * right.value
+      : left.value / right.value;
+    return { type: 'number', value };
+  }
+
+  if (left.type === 'pitch' && right.type === 'number' && (operator === '+' || operator === '-')) {
+    return { ...left, offset: left.offset + semitones(operator === '+' ? right.value : -right.value) };
+  }
+  if (left.type === 'number' && right.type === 'pitch' && operator === '+') {
+    return { ...right, offset: right.offset + semitones(left.value) };
+  }
+
+  if (left.type === 'duration' && right.type === 'duration' && (operator === '+' || operator === '-')) {
+    const sign = operator === '+' ? 1 : -1;
+    const numerator = left.value.numerator * right.value.denominator + sign * right.value.numerator * left.value.denominator;
+    if (numerator <= 0) {
+      throw new Error('Subtracting durations must leave a positive duration');
+    }
+    return {
+      type: 'duration',
+      value: {
+        numerator,
+        denominator: left.value.denominator * right.value.denominator,
+        tuplet: left.value.tuplet || right.value.tuplet,
+      },
+    };
+  }
+  if (left.type === 'duration' && right.type === 'number' && (operator === '*' || operator === '/')) {
+    const factor = scaleFactor(right.value);
+    return {
+      type: 'duration',
+      value: operator === '*'
+        ? { ...left.value, numerator: left.value.numerator * factor }
+        : { ...left.value, denominator: left.value.denominator * factor },
+    };
+  }
+  if (left.type === 'number' && right.type === 'duration' && operator === '*') {
+    return { type: 'duration', value: { ...right.value, numerator: right.value.numerator * scaleFactor(left.value) } };
+  }
+
+  throw new Error(`Cannot apply '${operator}' to ${left.type} and ${right.type}`);
+}
+
+function semitones(value: number): number {
+  if (!Number.isInteger(value)) {
+    throw new Error(`Pitch intervals must be whole semitones, got ${value}`);
+  }
+  return value;
+}
+
+function scaleFactor(value: number): number {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Durations can only be scaled by positive whole numbers, got ${value}`);
+  }
+  return value;
+}
+
 export class ParseError extends Error {
   line: number;
   column: number;
@@ -168,6 +502,8 @@ export class ParseError extends Error {
 class Parser {
   private tokens: Token[];
   private pos: number = 0;
+  private patternParams: string[] = []; // Parameters in scope while parsing a pattern body
+  private constants = new Map<string, ConstantDefinition>(); // let constants defined so far
 
   constructor(tokens: Token[]) {
     this.tokens = tokens;
@@ -185,6 +521,10 @@ class Parser {
     return token;
   }
 
+  private peek(): Token {
+    return this.tokens[Math.min(this.pos + 1, this.tokens.length - 1)];
+  }
+
   private expect(type: TokenType, message?: string): Token {
     const token = this.current();
     if (token.type !== type) {
@@ -194,6 +534,32 @@ class Parser {
     return this.advance();
   }
 
+  /**
+   * Expect a name. Besides identifiers, keywords and note-like words (e.g., key, time, m1)
+   * are accepted where only a name can follow, so programs can keep names from before
+   * those words had a meaning.
+   */
+  private expectName(message: string): Token {
+    const token = this.current();
+    if (token.type !== TokenType.IDENTIFIER && !NAME_PATTERN.test(token.value)) {
+      throw new ParseError(message, token.line, token.column);
+    }
+    return this.advance();
+  }
+
+  /**
+   * Expect a NOTE token and check its pitch, so an out-of-range note is reported where it is written
+   */
+  private expectPitch(message?: string): string {
+    const token = this.expect(TokenType.NOTE, message);
+    try {
+      parsePitch(token.value);
+    } catch (error) {
+      throw new ParseError((error as Error).message, token.line, token.column);
+    }
+    return token.value;
+  }
+
   private isAtEnd(): boolean {
     return this.current().type === TokenType.EOF;
   }
@@ -207,10 +573,13 @@ class Parser {
     const instruments: InstDirective[] = [];
     const patterns: PatternDefinition[] = [];
     const tracks: TrackDefinition[] = [];
+    const sections: SectionDefinition[] = [];
+    let song: SongDefinition | null = null;
     const globalSettings: GlobalSettings = {
       swing: 0,
       loop: 1,
       grid: 16,
+      timeSignature: { numerator: 4, denominator: 4 },
     };
 
     while (!this.isAtEnd()) {
@@ -247,6 +616,37 @@ class Parser {
           this.parseGridDirective(globalSettings, token);
           break;
 
+        case TokenType.TIME:
+          this.parseTimeDirective(globalSettings, token);
+          break;
+
+        case TokenType.KEY:
+          globalSettings.key = this.parseKeySignature();
+          break;
+
+        case TokenType.SEED:
+          this.parseSeedDirective(globalSettings, token);
+          break;
+
+        case TokenType.GATE:
+          this.advance();
+          globalSettings.gate = this.parseGateValue();
+          break;
+
+        case TokenType.HUMANIZE:
+          globalSettings.humanize = this.parseHumanize();
+          break;
+
+        case TokenType.TUNING:
+          globalSettings.tuning = this.parseTuningDirective();
+          break;
+
+        case TokenType.LET: {
+          const constant = this.parseLetDirective();
+          this.constants.set(constant.name, constant);
+          break;
+        }
+
         case TokenType.PATTERN:
           patterns.push(this.parsePatternDefinition());
           break;
@@ -255,6 +655,22 @@ class Parser {
           tracks.push(this.parseTrackDefinition());
           break;
 
+        case TokenType.SECTION: {
+          const section = this.parseSectionDefinition();
+          if (sections.some(other => other.name === section.name)) {
+            throw new ParseError(`Duplicate section '${section.name}'`, section.line, section.column);
+          }
+          sections.push(section);
+          break;
+        }
+
+        case TokenType.SONG:
+          if (song !== null) {
+            throw new ParseError('Duplicate song line', token.line, token.column);
+          }
+          song = this.parseSong();
+          break;
+
         default:
           throw new ParseError(
             `Unexpected token '${token.value || token.type}'`,
@@ -264,6 +680,16 @@ class Parser {
       }
     }
 
+    // Sections may be defined after the song line
+    for (const entry of song?.entries ?? []) {
+      if (!sections.some(section => section.name === entry.section)) {
+        const defined = sections.length > 0
+          ? `Defined sections: ${sections.map(section => section.name).join(', ')}`
+          : 'No sections defined. Add one with: section <name>:';
+        throw new ParseError(`Unknown section '${entry.section}' in song. ${defined}`, entry.line, entry.column);
+      }
+    }
+
     // Apply defaults if not specified
     if (bpm === null) {
       bpm = {
@@ -291,7 +717,10 @@ class Parser {
       instrument: defaultInstrument,
       instruments: instruments.length > 0 ? instruments : [defaultInstrument],
       patterns,
+      constants: Array.from(this.constants.values()),
       tracks,
+      sections,
+      song,
       sequence,
       globalSettings,
     };
@@ -302,12 +731,12 @@ class Parser {
    */
   private parseBpmDirective(): BpmDirective {
     const bpmToken = this.expect(TokenType.BPM);
-    const numberToken = this.expect(TokenType.NUMBER, 'Expected number after bpm');
+    const numberToken = this.current();
+    const value = this.parseNumberValue('Expected number after bpm');
 
-    const value = parseInt(numberToken.value, 10);
-    if (isNaN(value) || value <= 0) {
+    if (!Number.isInteger(value) || value <= 0) {
       throw new ParseError(
-        `Invalid BPM value: ${numberToken.value}`,
+        `Invalid BPM value: ${value}`,
         numberToken.line,
         numberToken.column
       );
@@ -326,16 +755,7 @@ class Parser {
    */
   private parseSwingDirective(globalSettings: GlobalSettings, startToken: Token): void {
     this.expect(TokenType.SWING);
-    const valueToken = this.current();
-    
-    let value: number;
-    if (valueToken.type === TokenType.DECIMAL) {
-      value = parseFloat(this.advance().value);
-    } else if (valueToken.type === TokenType.NUMBER) {
-      value = parseFloat(this.advance().value);
-    } else {
-      throw new ParseError('Expected number after swing', valueToken.line, valueToken.column);
-    }
+    const value = this.parseNumberValue('Expected number after swing');
 
     if (isNaN(value) || value < 0 || value > 0.75) {
       throw new ParseError(
@@ -353,12 +773,11 @@ class Parser {
    */
   private parseLoopDirective(globalSettings: GlobalSettings, startToken: Token): void {
     this.expect(TokenType.LOOP);
-    const numberToken = this.expect(TokenType.NUMBER, 'Expected number after loop');
-    
-    const bars = parseInt(numberToken.value, 10);
-    if (isNaN(bars) || bars <= 0) {
+    const bars = this.parseNumberValue('Expected number after loop');
+
+    if (!Number.isInteger(bars) || bars <= 0) {
       throw new ParseError(
-        `Invalid loop value: ${numberToken.value}. Must be a positive integer`,
+        `Invalid loop value: ${bars}. Must be a positive integer`,
         startToken.line,
         startToken.column
       );
@@ -372,13 +791,12 @@ class Parser {
    */
   private parseGridDirective(globalSettings: GlobalSettings, startToken: Token): void {
     this.expect(TokenType.GRID);
-    const numberToken = this.expect(TokenType.NUMBER, 'Expected number after grid');
-    
-    const denominator = parseInt(numberToken.value, 10);
+    const denominator = this.parseNumberValue('Expected number after grid');
+
     const validGridValues = [2, 4, 8, 16, 32, 64];
-    if (isNaN(denominator) || !validGridValues.includes(denominator)) {
+    if (!validGridValues.includes(denominator)) {
       throw new ParseError(
-        `Invalid grid value: ${numberToken.value}. Must be one of: ${validGridValues.join(', ')}`,
+        `Invalid grid value: ${denominator}. Must be one of: ${validGridValues.join(', ')}`,
         startToken.line,
         startToken.column
       );
@@ -388,67 +806,332 @@ class Parser {
   }
 
   /**
-   * Parse inst directive: inst <name> <waveform> [key=value ...]
-   * Supports: gain=<0..1>, attack=<s>, decay=<s>, sustain=<0..1>, release=<s>
+   * Parse time signature directive: time <beats>/<unit>
    */
-  private parseInstDirective(): InstDirective {
-    const instToken = this.expect(TokenType.INST);
-    const nameToken = this.expect(TokenType.IDENTIFIER, 'Expected instrument name after inst');
-    const waveformToken = this.expect(TokenType.IDENTIFIER, 'Expected waveform after instrument name');
+  private parseTimeDirective(globalSettings: GlobalSettings, startToken: Token): void {
+    this.expect(TokenType.TIME);
+    const signatureToken = this.expect(
+      TokenType.DURATION,
+      'Expected time signature after time (e.g., time 3/4)'
+    );
+
+    if (!TIME_SIGNATURE_PATTERN.test(signatureToken.value)) {
+      throw new ParseError(
+        `Invalid time signature: ${signatureToken.value} (write it as <beats>/<beat unit>, e.g., 3/4)`,
+        startToken.line,
+        startToken.column
+      );
+    }
 
-    const waveform = waveformToken.value.toLowerCase();
-    if (!VALID_WAVEFORMS.includes(waveform)) {
+    const [numerator, denominator] = signatureToken.value.split('/').map(part => parseInt(part, 10));
+    if (numerator <= 0) {
       throw new ParseError(
-        `Invalid waveform '${waveformToken.value}'. Valid options: ${VALID_WAVEFORMS.join(', ')}`,
-        waveformToken.line,
-        waveformToken.column
+        `Invalid time signature: ${signatureToken.value}. Beats per bar must be a positive integer`,
+        startToken.line,
+        startToken.column
       );
     }
 
-    const result: InstDirective = {
-      type: 'inst',
-      name: nameToken.value,
-      waveform,
-      line: instToken.line,
-      column: instToken.column,
-    };
+    const validBeatUnits = [1, 2, 4, 8, 16, 32];
+    if (!validBeatUnits.includes(denominator)) {
+      throw new ParseError(
+        `Invalid time signature: ${signatureToken.value}. Beat unit must be one of: ${validBeatUnits.join(', ')}`,
+        startToken.line,
+        startToken.column
+      );
+    }
 
-    // Parse optional key=value parameters
-    const adsr: ADSRParams = {};
-    let hasAdsr = false;
+    globalSettings.timeSignature = { numerator, denominator };
+  }
 
-    while (this.current().type === TokenType.IDENTIFIER) {
-      const keyToken = this.current();
-      const key = keyToken.value.toLowerCase();
-      
-      // Check if this looks like a key=value pair
-      const nextPos = this.pos + 1;
-      if (nextPos >= this.tokens.length || this.tokens[nextPos].type !== TokenType.EQUALS) {
-        break; // Not a key=value pair, stop parsing instrument params
+  /**
+   * Parse seed directive: seed <n>
+   */
+  private parseSeedDirective(globalSettings: GlobalSettings, startToken: Token): void {
+    this.expect(TokenType.SEED);
+    const seed = this.parseNumberValue('Expected number after seed');
+
+    if (!Number.isInteger(seed) || seed < 0) {
+      throw new ParseError(
+        `Invalid seed value: ${seed}. Must be a non-negative integer`,
+        startToken.line,
+        startToken.column
+      );
+    }
+
+    globalSettings.seed = seed;
+  }
+
+  /**
+   * Parse a gate value (the gate directive's argument or a gate= option): a fraction in (0, 1]
+   */
+  private parseGateValue(): number {
+    const valueToken = this.current();
+    const gate = this.parseNumberValue('Expected number for gate');
+
+    if (gate <= 0 || gate > 1) {
+      throw new ParseError(
+        `Invalid gate value: ${gate}. Must be greater than 0 and at most 1`,
+        valueToken.line,
+        valueToken.column
+      );
+    }
+    return gate;
+  }
+
+  /**
+   * Parse a gate= option
+   */
+  private parseGateOption(): number {
+    this.expect(TokenType.GATE);
+    this.expect(TokenType.EQUALS, 'Expected = after gate');
+    return this.parseGateValue();
+  }
+
+  /**
+   * Check if the current token starts a gate= option (rather than a gate directive)
+   */
+  private isGateOption(): boolean {
+    return this.current().type === TokenType.GATE && this.peek().type === TokenType.EQUALS;
+  }
+
+  /**
+   * Parse humanize settings: humanize [time=<ms>] [vel=<0..1>]
+   */
+  private parseHumanize(): HumanizeSettings {
+    const humanizeToken = this.expect(TokenType.HUMANIZE);
+    const result: HumanizeSettings = { time: 0, velocity: 0 };
+    let hasSetting = false;
+
+    while (
+      this.peek().type === TokenType.EQUALS &&
+      (this.current().type === TokenType.TIME ||
+        (this.current().type === TokenType.IDENTIFIER && this.current().value.toLowerCase() === 'vel'))
+    ) {
+      const optionToken = this.advance();
+      this.advance(); // consume =
+      const valueToken = this.current();
+
+      if (optionToken.type === TokenType.TIME) {
+        const time = valueToken.type === TokenType.MILLISECONDS
+          ? parseFloat(this.advance().value)
+          : this.parseNumberValue('Expected milliseconds for humanize time (e.g., time=10ms)');
+        if (time < 0) {
+          throw new ParseError(`Invalid humanize time: ${time}. Must be >= 0`, valueToken.line, valueToken.column);
+        }
+        result.time = time;
+      } else {
+        const velocity = this.parseNumberValue('Expected number for humanize vel');
+        if (velocity < 0 || velocity > 1) {
+          throw new ParseError(
+            `Invalid humanize vel: ${velocity}. Must be between 0 and 1`,
+            valueToken.line,
+            valueToken.column
+          );
+        }
+        result.velocity = velocity;
       }
+      hasSetting = true;
+    }
 
-      this.advance(); // consume key
-      this.expect(TokenType.EQUALS, 'Expected = after parameter name');
-      
+    if (!hasSetting) {
+      throw new ParseError(
+        'Expected time=<ms> or vel=<amount> after humanize',
+        humanizeToken.line,
+        humanizeToken.column
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Parse tuning directive: tuning [a4=<Hz>] [edo=<n>] [scl=<text>] [kbm=<text>]
+   * Without scl= or edo= the scale is 12-TET; without kbm= A4 sounds at a4= (default 440 Hz).
+   */
+  private parseTuningDirective(): Tuning {
+    const tuningToken = this.expect(TokenType.TUNING);
+    let referenceFrequency: number | undefined;
+    let edo: number | undefined;
+    let scale: ScalaScale | undefined;
+    let mapping: KeyboardMapping | undefined;
+
+    while (
+      this.peek().type === TokenType.EQUALS &&
+      ['a4', 'edo', 'scl', 'kbm'].includes(this.current().value.toLowerCase())
+    ) {
+      const option = this.advance().value.toLowerCase();
+      this.advance(); // consume =
       const valueToken = this.current();
-      let value: number;
-      
-      if (valueToken.type === TokenType.DECIMAL) {
-        value = parseFloat(this.advance().value);
-      } else if (valueToken.type === TokenType.NUMBER) {
-        value = parseFloat(this.advance().value);
+
+      if (option === 'a4') {
+        referenceFrequency = this.parseNumberValue('Expected frequency for tuning a4 (e.g., a4=432)');
+        if (referenceFrequency <= 0) {
+          throw new ParseError(
+            `Invalid tuning a4: ${referenceFrequency}. Must be greater than 0`,
+            valueToken.line,
+            valueToken.column
+          );
+        }
+      } else if (option === 'edo') {
+        edo = this.parseNumberValue('Expected number of steps for tuning edo (e.g., edo=19)');
+        if (!Number.isInteger(edo) || edo < 1) {
+          throw new ParseError(
+            `Invalid tuning edo: ${edo}. Must be a positive integer`,
+            valueToken.line,
+            valueToken.column
+          );
+        }
       } else {
-        throw new ParseError(
-          `Expected number value for ${key}`,
-          valueToken.line,
-          valueToken.column
-        );
+        const text = this.expect(TokenType.STRING, `Expected a string with the .${option} text after ${option}=`).value;
+        try {
+          if (option === 'scl') {
+            scale = parseScala(text);
+          } else {
+            mapping = parseKeyboardMapping(text);
+          }
+        } catch (error) {
+          throw new ParseError((error as Error).message, valueToken.line, valueToken.column);
+        }
       }
+    }
 
-      switch (key) {
-        case 'gain':
-          if (value < 0 || value > 1) {
-            throw new ParseError(
+    if (referenceFrequency === undefined && edo === undefined && !scale && !mapping) {
+      throw new ParseError(
+        'Expected a4=<Hz>, edo=<n>, scl=<text> or kbm=<text> after tuning',
+        tuningToken.line,
+        tuningToken.column
+      );
+    }
+    if (edo !== undefined && scale) {
+      throw new ParseError('Use either edo= or scl= in a tuning, not both', tuningToken.line, tuningToken.column);
+    }
+    if (referenceFrequency !== undefined && mapping) {
+      throw new ParseError(
+        'Use either a4= or kbm= in a tuning, not both: the keyboard mapping sets the reference frequency',
+        tuningToken.line,
+        tuningToken.column
+      );
+    }
+
+    try {
+      return createTuning(scale ?? equalTemperament(edo ?? 12), mapping ?? linearMapping(referenceFrequency));
+    } catch (error) {
+      throw new ParseError((error as Error).message, tuningToken.line, tuningToken.column);
+    }
+  }
+
+  /**
+   * Parse a nudge option: nudge=[+|-]<ms>ms or nudge=[+|-]<duration>
+   */
+  private parseNudge(): Nudge {
+    this.advance(); // consume 'nudge'
+    this.expect(TokenType.EQUALS, 'Expected = after nudge');
+
+    let sign = 1;
+    if (this.current().type === TokenType.PLUS) {
+      this.advance();
+    } else if (this.current().type === TokenType.MINUS) {
+      this.advance();
+      sign = -1;
+    }
+
+    const token = this.current();
+    if (token.type === TokenType.MILLISECONDS) {
+      this.advance();
+      return { value: sign * parseFloat(token.value), unit: 'ms' };
+    }
+    if (token.type === TokenType.DURATION) {
+      this.advance();
+      try {
+        return { value: sign * durationToWholeNotes(parseDuration(token.value)), unit: 'duration' };
+      } catch (error) {
+        throw new ParseError((error as Error).message, token.line, token.column);
+      }
+    }
+    throw new ParseError(
+      'Expected nudge in milliseconds or as a duration (e.g., nudge=+8ms, nudge=-1/64)',
+      token.line,
+      token.column
+    );
+  }
+
+  /**
+   * Parse key signature: key <tonic> <mode>
+   */
+  private parseKeySignature(): KeySignature {
+    this.expect(TokenType.KEY);
+    const tonicToken = this.current();
+    if (tonicToken.type !== TokenType.IDENTIFIER && tonicToken.type !== TokenType.PITCH_CLASS) {
+      throw new ParseError(
+        'Expected tonic after key (e.g., key Eb major)',
+        tonicToken.line,
+        tonicToken.column
+      );
+    }
+    this.advance();
+    const modeToken = this.expect(TokenType.IDENTIFIER, 'Expected mode after key tonic (e.g., major, minor, dorian)');
+
+    try {
+      return createKeySignature(tonicToken.value, modeToken.value);
+    } catch (error) {
+      throw new ParseError((error as Error).message, tonicToken.line, tonicToken.column);
+    }
+  }
+
+  /**
+   * Parse inst directive: inst <name> <waveform> [key=value ...]
+   * Supports: gain=<0..1>, gate=<0..1>, attack=<s>, decay=<s>, sustain=<0..1>, release=<s>
+   */
+  private parseInstDirective(): InstDirective {
+    const instToken = this.expect(TokenType.INST);
+    const nameToken = this.expectName('Expected instrument name after inst');
+    const waveformToken = this.expect(TokenType.IDENTIFIER, 'Expected waveform after instrument name');
+
+    const waveform = waveformToken.value.toLowerCase();
+    if (!VALID_WAVEFORMS.includes(waveform)) {
+      throw new ParseError(
+        `Invalid waveform '${waveformToken.value}'. Valid options: ${VALID_WAVEFORMS.join(', ')}`,
+        waveformToken.line,
+        waveformToken.column
+      );
+    }
+
+    const result: InstDirective = {
+      type: 'inst',
+      name: nameToken.value,
+      waveform,
+      line: instToken.line,
+      column: instToken.column,
+    };
+
+    // Parse optional key=value parameters
+    const adsr: ADSRParams = {};
+    let hasAdsr = false;
+
+    while (this.current().type === TokenType.IDENTIFIER || this.isGateOption()) {
+      if (this.isGateOption()) {
+        result.gate = this.parseGateOption();
+        continue;
+      }
+
+      const keyToken = this.current();
+      const key = keyToken.value.toLowerCase();
+      
+      // Check if this looks like a key=value pair
+      const nextPos = this.pos + 1;
+      if (nextPos >= this.tokens.length || this.tokens[nextPos].type !== TokenType.EQUALS) {
+        break; // Not a key=value pair, stop parsing instrument params
+      }
+
+      this.advance(); // consume key
+      this.expect(TokenType.EQUALS, 'Expected = after parameter name');
+      
+      const value = this.parseNumberValue(`Expected number value for ${key}`);
+
+      switch (key) {
+        case 'gain':
+          if (value < 0 || value > 1) {
+            throw new ParseError(
               `Invalid gain value: ${value}. Must be between 0 and 1`,
               keyToken.line,
               keyToken.column
@@ -521,207 +1204,751 @@ class Parser {
    */
   private parsePatternDefinition(): PatternDefinition {
     const patternToken = this.expect(TokenType.PATTERN);
-    const nameToken = this.expect(TokenType.IDENTIFIER, 'Expected pattern name after pattern');
+    const nameToken = this.expectName('Expected pattern name after pattern');
+    const params = this.current().type === TokenType.PAREN_OPEN ? this.parsePatternParameters() : [];
     this.expect(TokenType.COLON, 'Expected : after pattern name');
 
+    this.patternParams = params.map(param => param.name);
     const items = this.parseSequenceItems();
+    this.patternParams = [];
 
-    return {
+    const result: PatternDefinition = {
       type: 'pattern',
       name: nameToken.value,
       items,
       line: patternToken.line,
       column: patternToken.column,
     };
+
+    if (params.length > 0) {
+      result.params = params;
+    }
+
+    return result;
   }
 
   /**
-   * Parse track definition: track <name> inst=<instName>: <sequence items>
+   * Parse pattern parameters: (<name>, <name>, ...)
    */
-  private parseTrackDefinition(): TrackDefinition {
-    const trackToken = this.expect(TokenType.TRACK);
-    const nameToken = this.expect(TokenType.IDENTIFIER, 'Expected track name after track');
-    
-    // Parse inst=<instName> - 'inst' is tokenized as INST keyword
-    const instKeyToken = this.current();
-    if (instKeyToken.type !== TokenType.INST) {
-      throw new ParseError(
-        `Expected 'inst' keyword after track name`,
-        instKeyToken.line,
-        instKeyToken.column
-      );
+  private parsePatternParameters(): PatternParameter[] {
+    this.expect(TokenType.PAREN_OPEN);
+    const params: PatternParameter[] = [];
+
+    while (this.current().type !== TokenType.PAREN_CLOSE) {
+      if (params.length > 0) {
+        this.expect(TokenType.COMMA, 'Expected , or ) in pattern parameters');
+      }
+      const paramToken = this.expect(TokenType.IDENTIFIER, 'Expected parameter name');
+      if (params.some(param => param.name === paramToken.value)) {
+        throw new ParseError(
+          `Duplicate parameter '${paramToken.value}'`,
+          paramToken.line,
+          paramToken.column
+        );
+      }
+      params.push({ name: paramToken.value, line: paramToken.line, column: paramToken.column });
     }
-    this.advance(); // consume 'inst'
-    this.expect(TokenType.EQUALS, 'Expected = after inst');
-    const instNameToken = this.expect(TokenType.IDENTIFIER, 'Expected instrument name after inst=');
-    this.expect(TokenType.COLON, 'Expected : after track definition');
 
-    const items = this.parseSequenceItems();
+    this.expect(TokenType.PAREN_CLOSE, 'Expected ) to close pattern parameters');
+    return params;
+  }
 
-    return {
-      type: 'track',
-      name: nameToken.value,
-      instrumentName: instNameToken.value,
-      items,
-      line: trackToken.line,
-      column: trackToken.column,
-    };
+  /**
+   * Check if the current token names a parameter of the pattern being parsed
+   */
+  private isParameter(): boolean {
+    const token = this.current();
+    return token.type === TokenType.IDENTIFIER && this.patternParams.includes(token.value);
   }
 
   /**
-   * Parse seq block: seq: <note|rest> [, <note|rest>]*
+   * Parse a parameter reference, with a semitone interval when allowed: <name>[+N|-N]
    */
-  private parseSequence(): Sequence {
-    const seqToken = this.expect(TokenType.SEQ);
-    this.expect(TokenType.COLON, 'Expected : after seq');
+  private parseParameterRef(allowOffset: boolean): ParameterRef {
+    const nameToken = this.advance();
+    const ref: ParameterRef = {
+      type: 'param',
+      name: nameToken.value,
+      line: nameToken.line,
+      column: nameToken.column,
+    };
 
-    const items = this.parseSequenceItems();
+    const signToken = this.current();
+    if (signToken.type === TokenType.PLUS || signToken.type === TokenType.MINUS) {
+      if (!allowOffset) {
+        throw new ParseError(
+          `Only pitch parameters take an interval, got '${nameToken.value}${signToken.value}'`,
+          signToken.line,
+          signToken.column
+        );
+      }
+      this.advance();
+      const message = `Expected number of semitones after ${nameToken.value}${signToken.value}`;
+      const amountToken = this.current();
+      if (amountToken.type !== TokenType.NUMBER && !this.isConstant() && amountToken.type !== TokenType.PAREN_OPEN) {
+        throw new ParseError(message, amountToken.line, amountToken.column);
+      }
+      const amount = this.expectNumber(this.parseTerm(), amountToken);
+      if (!Number.isInteger(amount)) {
+        throw new ParseError(`Pitch intervals must be whole semitones, got ${amount}`, amountToken.line, amountToken.column);
+      }
+      ref.offset = signToken.type === TokenType.PLUS ? amount : -amount;
+    }
 
-    return {
-      type: 'sequence',
-      items,
-      line: seqToken.line,
-      column: seqToken.column,
-    };
+    return ref;
   }
 
   /**
-   * Check if a token type indicates the start of a new top-level directive
+   * Parse a duration: a duration literal or expression, or a parameter inside a parameterized pattern
    */
-  private isDirectiveToken(type: TokenType): boolean {
-    return type === TokenType.BPM || 
-           type === TokenType.INST || 
-           type === TokenType.SEQ ||
-           type === TokenType.SWING ||
-           type === TokenType.LOOP ||
-           type === TokenType.GRID ||
-           type === TokenType.PATTERN ||
-           type === TokenType.TRACK;
+  private parseDurationValue(message: string): string | ParameterRef {
+    if (this.isParameter()) {
+      return this.parseParameterRef(false);
+    }
+    return this.parseDurationString(message);
   }
 
   /**
-   * Parse sequence items (notes, rests, chords, repeat blocks, pattern uses)
+   * Parse a duration literal (kept as written) or a duration expression (e.g., len * 2)
    */
-  private parseSequenceItems(): SequenceItem[] {
-    const items: SequenceItem[] = [];
+  private parseDurationString(message: string): string {
+    const token = this.current();
+    if (token.type === TokenType.DURATION && !OPERATOR_TOKENS.includes(this.peek().type)) {
+      return this.advance().value;
+    }
+    if (token.type !== TokenType.DURATION && !this.isExpressionStart()) {
+      throw new ParseError(message, token.line, token.column);
+    }
 
-    while (!this.isAtEnd()) {
-      const token = this.current();
+    const operand = this.parseExpression();
+    if (operand.type !== 'duration') {
+      throw new ParseError(`Expected a duration, got a ${operand.type}`, token.line, token.column);
+    }
+    return formatDuration(operand.value);
+  }
 
-      // Check if we've reached another directive
-      if (this.isDirectiveToken(token.type)) {
-        break;
-      }
+  /**
+   * Parse a number literal or number expression (e.g., accent - 0.2)
+   */
+  private parseNumberValue(message: string): number {
+    const token = this.current();
+    const isLiteral = token.type === TokenType.NUMBER || token.type === TokenType.DECIMAL;
+    if (isLiteral && !OPERATOR_TOKENS.includes(this.peek().type)) {
+      return parseFloat(this.advance().value);
+    }
+    if (!isLiteral && !this.isExpressionStart()) {
+      throw new ParseError(message, token.line, token.column);
+    }
+    return this.expectNumber(this.parseExpression(), token);
+  }
 
-      // Also stop at closing brace (end of repeat block)
-      if (token.type === TokenType.BRACE_CLOSE) {
-        break;
-      }
+  /**
+   * Parse a pitch expression starting with a constant (e.g., root, root + 7).
+   * The result refers to the constant by name, so the key signature applies
+   * to its written pitch before the interval is added.
+   */
+  private parsePitchExpression(): string | ParameterRef {
+    const token = this.current();
+    return this.toPitchValue(this.parseExpression(), token);
+  }
 
-      if (token.type === TokenType.NOTE) {
-        items.push(this.parseNote());
-      } else if (token.type === TokenType.REST) {
-        items.push(this.parseRest());
-      } else if (token.type === TokenType.BRACKET_OPEN) {
-        items.push(this.parseChord());
-      } else if (token.type === TokenType.REPEAT) {
-        items.push(this.parseRepeatBlock());
-      } else if (token.type === TokenType.USE) {
-        items.push(this.parsePatternUse());
-      } else if (token.type === TokenType.COMMA) {
-        // Skip commas between items
-        this.advance();
-      } else {
+  private toPitchValue(operand: Operand, token: Token): string | ParameterRef {
+    if (operand.type !== 'pitch') {
+      throw new ParseError(`Expected a pitch, got a ${operand.type}`, token.line, token.column);
+    }
+    if (operand.name === undefined) {
+      if (operand.offset !== 0) {
         throw new ParseError(
-          `Expected note, rest, chord, repeat, or use in sequence, got '${token.value || token.type}'`,
+          'Intervals apply to pitch constants (e.g., let root = C4, then root + 7), not to written pitches',
           token.line,
           token.column
         );
       }
+      return operand.pitch!;
     }
 
-    return items;
+    const ref: ParameterRef = { type: 'param', name: operand.name, line: token.line, column: token.column };
+    if (operand.offset !== 0) {
+      ref.offset = operand.offset;
+    }
+    return ref;
+  }
+
+  private expectNumber(operand: Operand, token: Token): number {
+    if (operand.type !== 'number') {
+      throw new ParseError(`Expected a number, got a ${operand.type}`, token.line, token.column);
+    }
+    return operand.value;
   }
 
   /**
-   * Parse a chord: [<pitch> <pitch> ...] <duration> [vel=<0..1>]
+   * Check if the current token names a constant that no pattern parameter hides
    */
-  private parseChord(): ChordNode {
-    const startToken = this.expect(TokenType.BRACKET_OPEN);
-    const pitches: string[] = [];
+  private isConstant(): boolean {
+    const token = this.current();
+    return token.type === TokenType.IDENTIFIER &&
+      this.constants.has(token.value) &&
+      !this.patternParams.includes(token.value);
+  }
 
-    // Parse pitches inside brackets
-    while (this.current().type !== TokenType.BRACKET_CLOSE) {
-      if (this.isAtEnd()) {
-        throw new ParseError('Unclosed chord bracket', startToken.line, startToken.column);
-      }
-      
-      if (this.current().type === TokenType.NOTE) {
-        pitches.push(this.advance().value);
-      } else {
-        throw new ParseError(
-          `Expected note in chord, got '${this.current().value || this.current().type}'`,
-          this.current().line,
-          this.current().column
-        );
-      }
+  /**
+   * Check if the current token starts an expression rather than a plain literal
+   */
+  private isExpressionStart(): boolean {
+    const token = this.current();
+    if (token.type === TokenType.IDENTIFIER) {
+      return !this.patternParams.includes(token.value);
+    }
+    if (token.type === TokenType.PAREN_OPEN || token.type === TokenType.MINUS) {
+      return true;
     }
+    const isLiteral = token.type === TokenType.NUMBER ||
+      token.type === TokenType.DECIMAL ||
+      token.type === TokenType.DURATION;
+    return isLiteral && OPERATOR_TOKENS.includes(this.peek().type);
+  }
 
-    this.expect(TokenType.BRACKET_CLOSE, 'Expected ] to close chord');
-    const durationToken = this.expect(TokenType.DURATION, 'Expected duration after chord');
+  /**
+   * Parse a let directive: let <name> = <expression>
+   */
+  private parseLetDirective(): ConstantDefinition {
+    const letToken = this.expect(TokenType.LET);
+    const nameToken = this.expect(TokenType.IDENTIFIER, 'Expected constant name after let');
+    if (this.constants.has(nameToken.value)) {
+      throw new ParseError(`Duplicate constant '${nameToken.value}'`, nameToken.line, nameToken.column);
+    }
+    this.expect(TokenType.EQUALS, `Expected = after let ${nameToken.value}`);
 
-    const result: ChordNode = {
-      type: 'chord',
-      pitches,
-      duration: durationToken.value,
-      line: startToken.line,
-      column: startToken.column,
+    const valueToken = this.current();
+    const operand = this.parseExpression();
+    const result: ConstantDefinition = {
+      type: 'let',
+      name: nameToken.value,
+      value: { type: operand.type, value: '', line: valueToken.line, column: valueToken.column },
+      line: letToken.line,
+      column: letToken.column,
     };
 
-    // Check for optional velocity
-    if (this.current().type === TokenType.IDENTIFIER && this.current().value.toLowerCase() === 'vel') {
-      this.advance();
-      this.expect(TokenType.EQUALS, 'Expected = after vel');
-      
-      const velToken = this.current();
-      let velocity: number;
-      if (velToken.type === TokenType.DECIMAL) {
-        velocity = parseFloat(this.advance().value);
-      } else if (velToken.type === TokenType.NUMBER) {
-        velocity = parseFloat(this.advance().value);
-      } else {
-        throw new ParseError('Expected number for velocity', velToken.line, velToken.column);
-      }
-
-      if (velocity < 0 || velocity > 1) {
-        throw new ParseError(
-          `Invalid velocity: ${velocity}. Must be between 0 and 1`,
-          velToken.line,
-          velToken.column
-        );
+    if (operand.type === 'number') {
+      result.value.value = String(operand.value);
+    } else if (operand.type === 'duration') {
+      result.value.value = formatDuration(operand.value);
+    } else {
+      // Pitches built on another constant start from that constant's pitch
+      const base = operand.name !== undefined ? this.constants.get(operand.name)! : undefined;
+      const offset = (base?.offset ?? 0) + operand.offset;
+      result.value.value = base ? base.value.value : operand.pitch!;
+      if (offset !== 0) {
+        result.offset = offset;
       }
-      result.velocity = velocity;
     }
 
     return result;
   }
 
   /**
-   * Parse a repeat block: xN { ... }
+   * Parse an expression: <term> [(+|-) <term>]*
    */
-  private parseRepeatBlock(): RepeatBlock {
-    const repeatToken = this.expect(TokenType.REPEAT);
-    const count = parseInt(repeatToken.value.substring(1), 10); // Remove 'x' prefix
+  private parseExpression(): Operand {
+    let left = this.parseTerm();
+    while (this.current().type === TokenType.PLUS || this.current().type === TokenType.MINUS) {
+      const operatorToken = this.advance();
+      left = this.applyOperator(operatorToken, left, this.parseTerm());
+    }
+    return left;
+  }
 
-    if (isNaN(count) || count <= 0) {
-      throw new ParseError(
-        `Invalid repeat count: ${repeatToken.value}`,
-        repeatToken.line,
-        repeatToken.column
-      );
+  /**
+   * Parse a term: <factor> [(*|/) <factor>]*
+   */
+  private parseTerm(): Operand {
+    let left = this.parseFactor();
+    while (this.current().type === TokenType.STAR || this.current().type === TokenType.SLASH) {
+      const operatorToken = this.advance();
+      left = this.applyOperator(operatorToken, left, this.parseFactor());
     }
+    return left;
+  }
+
+  /**
+   * Parse a factor: -<factor> | (<expression>) | <number> | <duration> | <pitch> | <constant>
+   */
+  private parseFactor(): Operand {
+    const token = this.current();
+
+    switch (token.type) {
+      case TokenType.MINUS: {
+        this.advance();
+        const operand = this.parseFactor();
+        if (operand.type !== 'number') {
+          throw new ParseError(`Cannot negate a ${operand.type}`, token.line, token.column);
+        }
+        return { type: 'number', value: -operand.value };
+      }
+      case TokenType.PAREN_OPEN: {
+        this.advance();
+        const operand = this.parseExpression();
+        this.expect(TokenType.PAREN_CLOSE, 'Expected ) to close expression');
+        return operand;
+      }
+      case TokenType.NUMBER:
+      case TokenType.DECIMAL:
+        this.advance();
+        return { type: 'number', value: parseFloat(token.value) };
+      case TokenType.DURATION:
+        this.advance();
+        try {
+          return { type: 'duration', value: parseDuration(token.value) };
+        } catch (error) {
+          throw new ParseError((error as Error).message, token.line, token.column);
+        }
+      case TokenType.NOTE:
+        this.advance();
+        try {
+          parsePitch(token.value);
+        } catch (error) {
+          throw new ParseError((error as Error).message, token.line, token.column);
+        }
+        return { type: 'pitch', pitch: token.value, offset: 0 };
+      case TokenType.IDENTIFIER: {
+        if (this.patternParams.includes(token.value)) {
+          throw new ParseError(
+            `Parameter '${token.value}' cannot be used in an expression`,
+            token.line,
+            token.column
+          );
+        }
+        const constant = this.constants.get(token.value);
+        if (!constant) {
+          throw new ParseError(`Undefined constant '${token.value}'`, token.line, token.column);
+        }
+        this.advance();
+        if (constant.value.type === 'number') {
+          return { type: 'number', value: parseFloat(constant.value.value) };
+        }
+        if (constant.value.type === 'duration') {
+          return { type: 'duration', value: parseDuration(constant.value.value) };
+        }
+        return { type: 'pitch', name: constant.name, offset: 0 };
+      }
+      default:
+        throw new ParseError(
+          `Expected number, duration, pitch or constant, got '${token.value || token.type}'`,
+          token.line,
+          token.column
+        );
+    }
+  }
+
+  private applyOperator(operatorToken: Token, left: Operand, right: Operand): Operand {
+    try {
+      return applyOperator(operatorToken.value, left, right);
+    } catch (error) {
+      throw new ParseError((error as Error).message, operatorToken.line, operatorToken.column);
+    }
+  }
+
+  /**
+   * Parse track definition:
+   * track <name> inst=<instName> [key <tonic> <mode>] [gate=<0..1>] [humanize ...] [loop=<duration>]: <sequence items>
+   */
+  private parseTrackDefinition(): TrackDefinition {
+    const trackToken = this.expect(TokenType.TRACK);
+    const nameToken = this.expectName('Expected track name after track');
+    
+    // Parse inst=<instName> - 'inst' is tokenized as INST keyword
+    const instKeyToken = this.current();
+    if (instKeyToken.type !== TokenType.INST) {
+      throw new ParseError(
+        `Expected 'inst' keyword after track name`,
+        instKeyToken.line,
+        instKeyToken.column
+      );
+    }
+    this.advance(); // consume 'inst'
+    this.expect(TokenType.EQUALS, 'Expected = after inst');
+    const instNameToken = this.expectName('Expected instrument name after inst=');
+    const key = this.current().type === TokenType.KEY ? this.parseKeySignature() : undefined;
+    const gate = this.isGateOption() ? this.parseGateOption() : undefined;
+    const humanize = this.current().type === TokenType.HUMANIZE ? this.parseHumanize() : undefined;
+    const loop = this.current().type === TokenType.LOOP ? this.parseTrackLoop() : undefined;
+    this.expect(TokenType.COLON, 'Expected : after track definition');
 
-    this.expect(TokenType.BRACE_OPEN, 'Expected { after repeat count');
+    const items = this.parseSequenceItems();
+
+    const result: TrackDefinition = {
+      type: 'track',
+      name: nameToken.value,
+      instrumentName: instNameToken.value,
+      items,
+      line: trackToken.line,
+      column: trackToken.column,
+    };
+
+    if (key) {
+      result.key = key;
+    }
+    if (gate !== undefined) {
+      result.gate = gate;
+    }
+    if (humanize) {
+      result.humanize = humanize;
+    }
+    if (loop !== undefined) {
+      result.loop = loop;
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a track's cycle length: loop=<duration>
+   * @returns The cycle length in whole notes
+   */
+  private parseTrackLoop(): number {
+    const loopToken = this.expect(TokenType.LOOP);
+    this.expect(TokenType.EQUALS, 'Expected = after loop');
+    const value = this.parseDurationString('Expected duration after loop= (e.g., loop=3/4)');
+    const length = durationToWholeNotes(parseDuration(value));
+
+    if (length <= 0) {
+      throw new ParseError(`Invalid track loop: ${value}. Must be longer than 0`, loopToken.line, loopToken.column);
+    }
+    return length;
+  }
+
+  /**
+   * Parse section definition: section <name>: followed by track definitions.
+   * The section holds the tracks indented further than the section keyword.
+   */
+  private parseSectionDefinition(): SectionDefinition {
+    const sectionToken = this.expect(TokenType.SECTION);
+    const nameToken = this.expect(TokenType.IDENTIFIER, 'Expected section name after section');
+    this.expect(TokenType.COLON, 'Expected : after section name');
+
+    const tracks: TrackDefinition[] = [];
+    while (this.current().type === TokenType.TRACK && this.current().column > sectionToken.column) {
+      const track = this.parseTrackDefinition();
+      if (track.loop !== undefined) {
+        throw new ParseError(
+          `Track '${track.name}' in section '${nameToken.value}' cannot set loop=. Track loops only apply to top-level tracks`,
+          track.line,
+          track.column
+        );
+      }
+      tracks.push(track);
+    }
+
+    if (tracks.length === 0) {
+      throw new ParseError(
+        `Section '${nameToken.value}' has no tracks. Indent its track definitions under the section`,
+        sectionToken.line,
+        sectionToken.column
+      );
+    }
+
+    return {
+      type: 'section',
+      name: nameToken.value,
+      tracks,
+      line: sectionToken.line,
+      column: sectionToken.column,
+    };
+  }
+
+  /**
+   * Parse song line: song: <section> [xN] [, <section> [xN]]*
+   */
+  private parseSong(): SongDefinition {
+    const songToken = this.expect(TokenType.SONG);
+    this.expect(TokenType.COLON, 'Expected : after song');
+
+    const entries: SongEntry[] = [];
+    while (!this.isAtEnd() && !this.isDirectiveToken(this.current().type)) {
+      if (this.current().type === TokenType.COMMA) {
+        // Skip commas between entries
+        this.advance();
+        continue;
+      }
+
+      const nameToken = this.expect(TokenType.IDENTIFIER, 'Expected section name in song');
+      let repetitions = 1;
+      const token = this.current();
+      if (token.type === TokenType.REPEAT) {
+        this.advance();
+        repetitions = parseInt(token.value.substring(1), 10);
+        if (isNaN(repetitions) || repetitions <= 0) {
+          throw new ParseError(`Invalid repetition count: ${token.value}`, token.line, token.column);
+        }
+      }
+      entries.push({ section: nameToken.value, repetitions, line: nameToken.line, column: nameToken.column });
+    }
+
+    if (entries.length === 0) {
+      throw new ParseError('Expected section name in song', songToken.line, songToken.column);
+    }
+
+    return {
+      type: 'song',
+      entries,
+      line: songToken.line,
+      column: songToken.column,
+    };
+  }
+
+  /**
+   * Parse seq block: seq: <note|rest> [, <note|rest>]*
+   */
+  private parseSequence(): Sequence {
+    const seqToken = this.expect(TokenType.SEQ);
+    this.expect(TokenType.COLON, 'Expected : after seq');
+
+    const items = this.parseSequenceItems();
+
+    return {
+      type: 'sequence',
+      items,
+      line: seqToken.line,
+      column: seqToken.column,
+    };
+  }
+
+  /**
+   * Check if a token type indicates the start of a new top-level directive
+   */
+  private isDirectiveToken(type: TokenType): boolean {
+    return type === TokenType.BPM || 
+           type === TokenType.INST || 
+           type === TokenType.SEQ ||
+           type === TokenType.SWING ||
+           type === TokenType.LOOP ||
+           type === TokenType.GRID ||
+           type === TokenType.TIME ||
+           type === TokenType.KEY ||
+           type === TokenType.LET ||
+           type === TokenType.SEED ||
+           type === TokenType.GATE ||
+           type === TokenType.HUMANIZE ||
+           type === TokenType.TUNING ||
+           type === TokenType.SECTION ||
+           type === TokenType.SONG ||
+           type === TokenType.PATTERN ||
+           type === TokenType.TRACK;
+  }
+
+  /**
+   * Parse sequence items (notes, rests, chords, repeat blocks, pattern uses)
+   */
+  private parseSequenceItems(): SequenceItem[] {
+    const items: SequenceItem[] = [];
+
+    while (!this.isAtEnd()) {
+      const token = this.current();
+
+      // Check if we've reached another directive
+      if (this.isDirectiveToken(token.type)) {
+        break;
+      }
+
+      // Also stop at closing brace (end of repeat block)
+      if (token.type === TokenType.BRACE_CLOSE) {
+        break;
+      }
+
+      if (token.type === TokenType.NOTE && this.peek().type === TokenType.COLON) {
+        // Chord symbol that reads like a note, e.g. C7:4
+        items.push(this.parseChordSymbol());
+      } else if (token.type === TokenType.NOTE || this.isParameter() || this.isConstant()) {
+        items.push(this.parseNote());
+      } else if (token.type === TokenType.REST) {
+        items.push(this.parseRest());
+      } else if (token.type === TokenType.BRACKET_OPEN) {
+        items.push(this.parseChord());
+      } else if (token.type === TokenType.BRACE_OPEN || token.type === TokenType.ANGLE_OPEN) {
+        items.push(this.parseChoice());
+      } else if (token.type === TokenType.IDENTIFIER && token.value.toLowerCase() === 'arp') {
+        items.push(this.parseArpBlock());
+      } else if (
+        token.type === TokenType.IDENTIFIER &&
+        token.value.toLowerCase() === 'euclid' &&
+        this.peek().type === TokenType.PAREN_OPEN
+      ) {
+        items.push(this.parseEuclidBlock());
+      } else if (token.type === TokenType.IDENTIFIER && token.value.toLowerCase() === 'steps') {
+        items.push(this.parseStepsBlock());
+      } else if (
+        token.type === TokenType.IDENTIFIER ||
+        token.type === TokenType.PITCH_CLASS ||
+        token.type === TokenType.CHORD_SYMBOL
+      ) {
+        items.push(this.parseChordSymbol());
+      } else if (token.type === TokenType.REPEAT) {
+        items.push(this.parseRepeatBlock());
+      } else if (token.type === TokenType.TUPLET) {
+        items.push(this.parseTupletBlock());
+      } else if (token.type === TokenType.VOICELEAD) {
+        items.push(this.parseVoiceLeadBlock());
+      } else if (token.type === TokenType.USE) {
+        items.push(this.parsePatternUse());
+      } else if (
+        token.type === TokenType.TEMPO ||
+        token.type === TokenType.ACCEL ||
+        token.type === TokenType.RIT
+      ) {
+        items.push(this.parseTempoChange());
+      } else if (token.type === TokenType.COMMA) {
+        // Skip commas between items
+        this.advance();
+      } else {
+        throw new ParseError(
+          `Expected note, rest, chord, repeat, tuplet, voicelead, arp, use, or tempo change in sequence, got '${token.value || token.type}'`,
+          token.line,
+          token.column
+        );
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Parse a chord: [<pitch> <pitch> ...] <duration> [~ <duration>]* [vel=<0..1>] [inv=<n>] [drop2] [open]
+   */
+  private parseChord(): ChordNode {
+    const startToken = this.expect(TokenType.BRACKET_OPEN);
+    const pitches: (string | ParameterRef)[] = [];
+
+    // Parse pitches inside brackets
+    while (this.current().type !== TokenType.BRACKET_CLOSE) {
+      if (this.isAtEnd()) {
+        throw new ParseError('Unclosed chord bracket', startToken.line, startToken.column);
+      }
+      
+      if (this.current().type === TokenType.NOTE) {
+        pitches.push(this.expectPitch());
+      } else if (this.isParameter()) {
+        pitches.push(this.parseParameterRef(true));
+      } else if (this.isConstant()) {
+        pitches.push(this.parsePitchExpression());
+      } else {
+        throw new ParseError(
+          `Expected note in chord, got '${this.current().value || this.current().type}'`,
+          this.current().line,
+          this.current().column
+        );
+      }
+    }
+
+    this.expect(TokenType.BRACKET_CLOSE, 'Expected ] to close chord');
+    return this.parseChordTail(pitches, startToken);
+  }
+
+  /**
+   * Parse a chord symbol: <symbol>[:<octave>] <duration> [~ <duration>]* [modifiers]
+   * The symbol is expanded into the same pitches a bracketed chord would list.
+   */
+  private parseChordSymbol(): ChordNode {
+    const symbolToken = this.advance();
+    let octave: number | undefined;
+
+    if (this.current().type === TokenType.COLON) {
+      this.advance();
+      const octaveToken = this.expect(TokenType.NUMBER, 'Expected octave after : in chord symbol (e.g., Cmaj7:4)');
+      octave = parseInt(octaveToken.value, 10);
+    }
+
+    let pitches: string[];
+    try {
+      pitches = expandChordSymbol(symbolToken.value, octave);
+      pitches.forEach(pitch => parsePitch(pitch)); // Reject chords that leave the octave range
+    } catch (error) {
+      // Words that do not start with a chord root are not meant as chords
+      const message = /^[A-G]/.test(symbolToken.value)
+        ? (error as Error).message
+        : `Expected note, rest, chord, repeat, tuplet, voicelead, arp, use, or tempo change in sequence, got '${symbolToken.value}'`;
+      throw new ParseError(message, symbolToken.line, symbolToken.column);
+    }
+
+    const result = this.parseChordTail(pitches, symbolToken);
+    result.symbol = symbolToken.value;
+    return result;
+  }
+
+  /**
+   * Parse the part of a chord after its pitches: <duration> [~ <duration>]* [vel=<0..1>] [p=<0..1>] [gate=<0..1>] [nudge=<offset>] [inv=<n>] [drop2] [open] [stacc|ten|legato|.|>]
+   */
+  private parseChordTail(pitches: (string | ParameterRef)[], startToken: Token): ChordNode {
+    const duration = this.parseDurationValue('Expected duration after chord');
+
+    const result: ChordNode = {
+      type: 'chord',
+      pitches,
+      duration,
+      line: startToken.line,
+      column: startToken.column,
+    };
+
+    const ties = this.parseTies(false);
+    if (ties.length > 0) {
+      result.ties = ties;
+    }
+
+    // Optional modifiers in any order: vel=<0..1>, p=<0..1>, inv=<n>, drop2, open, articulations
+    while (true) {
+      const modifierToken = this.current();
+      const modifier = modifierToken.type === TokenType.IDENTIFIER ? modifierToken.value.toLowerCase() : '';
+
+      if (modifier === 'vel') {
+        result.velocity = this.parseVelocity();
+      } else if (modifier === 'p') {
+        result.probability = this.parseProbability();
+      } else if (this.isGateOption()) {
+        result.gate = this.parseGateOption();
+      } else if (modifier === 'nudge') {
+        result.nudge = this.parseNudge();
+      } else if (modifier === 'inv') {
+        this.advance();
+        this.expect(TokenType.EQUALS, 'Expected = after inv');
+        const inversionToken = this.expect(TokenType.NUMBER, 'Expected number for inversion');
+        const inversion = parseInt(inversionToken.value, 10);
+        if (inversion >= pitches.length) {
+          throw new ParseError(
+            `Invalid inversion: ${inversion}. A chord of ${pitches.length} notes has inversions 0-${pitches.length - 1}`,
+            inversionToken.line,
+            inversionToken.column
+          );
+        }
+        result.voicing = { ...result.voicing, inversion };
+      } else if (modifier === 'drop2') {
+        this.advance();
+        result.voicing = { ...result.voicing, drop2: true };
+      } else if (modifier === 'open') {
+        this.advance();
+        result.voicing = { ...result.voicing, open: true };
+      } else if (!this.parseArticulation(result)) {
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a repeat block: xN { ... }
+   */
+  private parseRepeatBlock(): RepeatBlock {
+    const repeatToken = this.expect(TokenType.REPEAT);
+    const count = parseInt(repeatToken.value.substring(1), 10); // Remove 'x' prefix
+
+    if (isNaN(count) || count <= 0) {
+      throw new ParseError(
+        `Invalid repeat count: ${repeatToken.value}`,
+        repeatToken.line,
+        repeatToken.column
+      );
+    }
+
+    this.expect(TokenType.BRACE_OPEN, 'Expected { after repeat count');
     const items = this.parseSequenceItems();
     this.expect(TokenType.BRACE_CLOSE, 'Expected } to close repeat block');
 
@@ -735,87 +1962,709 @@ class Parser {
   }
 
   /**
-   * Parse pattern use: use <patternName> [xN]
+   * Parse a tuplet block: n:m { ... }
    */
-  private parsePatternUse(): PatternUse {
-    const useToken = this.expect(TokenType.USE);
-    const nameToken = this.expect(TokenType.IDENTIFIER, 'Expected pattern name after use');
+  private parseTupletBlock(): TupletBlock {
+    const tupletToken = this.expect(TokenType.TUPLET);
+    const [count, span] = tupletToken.value.split(':').map(part => parseInt(part, 10));
 
-    let repetitions = 1;
-    if (this.current().type === TokenType.REPEAT) {
-      const repeatToken = this.advance();
-      repetitions = parseInt(repeatToken.value.substring(1), 10);
-      if (isNaN(repetitions) || repetitions <= 0) {
+    if (count <= 0 || span <= 0) {
+      throw new ParseError(
+        `Invalid tuplet ratio: ${tupletToken.value}. Both sides must be positive`,
+        tupletToken.line,
+        tupletToken.column
+      );
+    }
+
+    this.expect(TokenType.BRACE_OPEN, 'Expected { after tuplet ratio');
+    const items = this.parseSequenceItems();
+    this.expect(TokenType.BRACE_CLOSE, 'Expected } to close tuplet block');
+
+    return {
+      type: 'tuplet',
+      count,
+      span,
+      items,
+      line: tupletToken.line,
+      column: tupletToken.column,
+    };
+  }
+
+  /**
+   * Parse a voice-lead block: voicelead { ... }
+   */
+  private parseVoiceLeadBlock(): VoiceLeadBlock {
+    const voiceLeadToken = this.expect(TokenType.VOICELEAD);
+    this.expect(TokenType.BRACE_OPEN, 'Expected { after voicelead');
+    const items = this.parseSequenceItems();
+    this.expect(TokenType.BRACE_CLOSE, 'Expected } to close voicelead block');
+
+    return {
+      type: 'voicelead',
+      items,
+      line: voiceLeadToken.line,
+      column: voiceLeadToken.column,
+    };
+  }
+
+  /**
+   * Parse an arpeggiator block: arp <mode> <rate> [octaves=<n>] [seed=<n>] { ... }
+   */
+  private parseArpBlock(): ArpBlock {
+    const arpToken = this.advance(); // consume 'arp'
+    const modeToken = this.current();
+    const mode = modeToken.value.toLowerCase() as ArpMode;
+    if (modeToken.type !== TokenType.IDENTIFIER || !ARP_MODES.includes(mode)) {
+      throw new ParseError(
+        `Invalid arp mode '${modeToken.value || modeToken.type}'. Must be one of: ${ARP_MODES.join(', ')}`,
+        modeToken.line,
+        modeToken.column
+      );
+    }
+    this.advance();
+    const rate = this.parseDurationString(`Expected rate after arp ${mode} (e.g., arp ${mode} 1/16)`);
+
+    const result: ArpBlock = {
+      type: 'arp',
+      mode,
+      rate,
+      octaves: 1,
+      items: [],
+      line: arpToken.line,
+      column: arpToken.column,
+    };
+
+    // Optional settings: octaves=<n>, seed=<n>
+    while (this.current().type === TokenType.IDENTIFIER || this.current().type === TokenType.SEED) {
+      const optionToken = this.current();
+      const option = optionToken.value.toLowerCase();
+      if (option !== 'octaves' && option !== 'seed') {
         throw new ParseError(
-          `Invalid repetition count: ${repeatToken.value}`,
-          repeatToken.line,
-          repeatToken.column
+          `Unknown arp option '${optionToken.value}'. Expected octaves= or seed=`,
+          optionToken.line,
+          optionToken.column
         );
       }
+      this.advance();
+      this.expect(TokenType.EQUALS, `Expected = after ${option}`);
+      const valueToken = this.expect(TokenType.NUMBER, `Expected number for ${option}`);
+      const value = parseInt(valueToken.value, 10);
+
+      if (option === 'octaves') {
+        if (value <= 0) {
+          throw new ParseError(
+            `Invalid octaves value: ${value}. Must be a positive integer`,
+            valueToken.line,
+            valueToken.column
+          );
+        }
+        result.octaves = value;
+      } else {
+        result.seed = value;
+      }
+    }
+
+    this.expect(TokenType.BRACE_OPEN, 'Expected { after arp settings');
+    result.items = this.parseSequenceItems();
+    this.expect(TokenType.BRACE_CLOSE, 'Expected } to close arp block');
+
+    return result;
+  }
+
+  /**
+   * Parse a Euclidean rhythm: euclid(<hits>, <steps>[, <rotation>]) <note|chord|choice>
+   */
+  private parseEuclidBlock(): EuclidBlock {
+    const euclidToken = this.advance(); // consume 'euclid'
+    this.expect(TokenType.PAREN_OPEN, 'Expected ( after euclid');
+
+    const hitsToken = this.current();
+    const hits = this.parseNumberValue('Expected number of hits (e.g., euclid(3, 8))');
+    this.expect(TokenType.COMMA, 'Expected , between hits and steps (e.g., euclid(3, 8))');
+    const stepsToken = this.current();
+    const steps = this.parseNumberValue('Expected number of steps (e.g., euclid(3, 8))');
+
+    let rotation = 0;
+    let rotationToken = this.current();
+    if (this.current().type === TokenType.COMMA) {
+      this.advance();
+      rotationToken = this.current();
+      rotation = this.parseNumberValue('Expected rotation (e.g., euclid(3, 8, 2))');
+    }
+    this.expect(TokenType.PAREN_CLOSE, 'Expected ) to close euclid');
+
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new ParseError(`Invalid step count: ${steps}. Must be a positive integer`, stepsToken.line, stepsToken.column);
+    }
+    if (!Number.isInteger(hits) || hits < 0 || hits > steps) {
+      throw new ParseError(`Invalid hit count: ${hits}. Must be between 0 and ${steps}`, hitsToken.line, hitsToken.column);
+    }
+    if (!Number.isInteger(rotation)) {
+      throw new ParseError(`Invalid rotation: ${rotation}. Must be a whole number of steps`, rotationToken.line, rotationToken.column);
+    }
+
+    const token = this.current();
+    let hit: NoteNode | ChordNode | ChoiceNode;
+    if (token.type === TokenType.NOTE && this.peek().type !== TokenType.COLON) {
+      hit = this.parseNote();
+    } else if (this.isParameter() || this.isConstant()) {
+      hit = this.parseNote();
+    } else if (token.type === TokenType.BRACKET_OPEN) {
+      hit = this.parseChord();
+    } else if (token.type === TokenType.BRACE_OPEN || token.type === TokenType.ANGLE_OPEN) {
+      hit = this.parseChoice();
+    } else if (
+      token.type === TokenType.NOTE ||
+      token.type === TokenType.PITCH_CLASS ||
+      token.type === TokenType.CHORD_SYMBOL ||
+      (token.type === TokenType.IDENTIFIER && /^[A-G]/.test(token.value))
+    ) {
+      hit = this.parseChordSymbol();
+    } else {
+      throw new ParseError(
+        `Expected note or chord after euclid(${hits}, ${steps}), got '${token.value || token.type}'`,
+        token.line,
+        token.column
+      );
+    }
+
+    if (hit.type !== 'choice' && hit.ties) {
+      throw new ParseError('Euclidean hits cannot be tied: the duration is the step length', token.line, token.column);
     }
 
     return {
+      type: 'euclid',
+      hits,
+      steps,
+      rotation,
+      hit,
+      line: euclidToken.line,
+      column: euclidToken.column,
+    };
+  }
+
+  /**
+   * Parse a step string: steps <pitch> [<step>] "<pattern>" [vel=<0..1>] [accent=<0..1>] [p=<0..1>] [gate=<0..1>]
+   * Spaces and | in the pattern only separate groups visually.
+   */
+  private parseStepsBlock(): StepsBlock {
+    const stepsToken = this.advance(); // consume 'steps'
+    const pitch = this.isParameter()
+      ? this.parseParameterRef(true)
+      : this.isConstant()
+        ? this.parsePitchExpression()
+        : this.expectPitch('Expected pitch after steps (e.g., steps C2 1/16 "x..x")');
+
+    let step: string | ParameterRef | undefined;
+    if (this.current().type !== TokenType.STRING) {
+      step = this.parseDurationValue('Expected step length or "pattern" after steps pitch');
+    }
+
+    const patternToken = this.expect(TokenType.STRING, 'Expected step pattern in quotes (e.g., "x..x")');
+    let pattern = '';
+    for (let i = 0; i < patternToken.value.length; i++) {
+      const char = patternToken.value[i];
+      const column = patternToken.column + 1 + i;
+      if (char === ' ' || char === '\t' || char === '|') {
+        continue;
+      }
+      if (!'xX.-'.includes(char)) {
+        throw new ParseError(
+          `Invalid step '${char}'. Use x (hit), X (accent), . (rest) or - (tie)`,
+          patternToken.line,
+          column
+        );
+      }
+      if (char === '-' && pattern.length === 0) {
+        throw new ParseError('A step pattern cannot start with a tie', patternToken.line, column);
+      }
+      pattern += char;
+    }
+    if (pattern.length === 0) {
+      throw new ParseError('Empty step pattern', patternToken.line, patternToken.column);
+    }
+
+    const result: StepsBlock = {
+      type: 'steps',
+      pitch,
+      pattern,
+      line: stepsToken.line,
+      column: stepsToken.column,
+    };
+    if (step !== undefined) {
+      result.step = step;
+    }
+
+    // Optional settings in any order: vel=<0..1>, accent=<0..1>, p=<0..1>, gate=<0..1>
+    while (this.current().type === TokenType.IDENTIFIER || this.isGateOption()) {
+      const option = this.current().value.toLowerCase();
+      if (option === 'vel') {
+        result.velocity = this.parseVelocity();
+      } else if (option === 'accent') {
+        result.accent = this.parseVelocity();
+      } else if (option === 'p') {
+        result.probability = this.parseProbability();
+      } else if (this.isGateOption()) {
+        result.gate = this.parseGateOption();
+      } else {
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse pattern use: use <patternName>[(<arg>, ...)] [xN] [+N|-N] [oct=<+N|-N>] [*N|/N] [transforms...]
+   */
+  private parsePatternUse(): PatternUse {
+    const useToken = this.expect(TokenType.USE);
+    const nameToken = this.expectName('Expected pattern name after use');
+
+    const result: PatternUse = {
       type: 'patternUse',
       name: nameToken.value,
-      repetitions,
+      repetitions: 1,
       line: useToken.line,
       column: useToken.column,
     };
+
+    if (this.current().type === TokenType.PAREN_OPEN) {
+      result.args = this.parsePatternArguments();
+    }
+    let transpose = 0;
+    let stretch = 1;
+    const transforms: PatternTransform[] = [];
+
+    // Options in any order: repetitions, semitone shift, octave shift, stretch, transforms
+    while (true) {
+      const token = this.current();
+      if (token.type === TokenType.REPEAT) {
+        this.advance();
+        const repetitions = parseInt(token.value.substring(1), 10);
+        if (isNaN(repetitions) || repetitions <= 0) {
+          throw new ParseError(
+            `Invalid repetition count: ${token.value}`,
+            token.line,
+            token.column
+          );
+        }
+        result.repetitions = repetitions;
+      } else if (token.type === TokenType.PLUS || token.type === TokenType.MINUS) {
+        transpose += this.parseSignedInteger('Expected number of semitones after sign (e.g., use riff +5)');
+      } else if (token.type === TokenType.IDENTIFIER && token.value.toLowerCase() === 'oct') {
+        this.advance();
+        this.expect(TokenType.EQUALS, 'Expected = after oct');
+        transpose += 12 * this.parseSignedInteger('Expected number of octaves after oct= (e.g., oct=+1)');
+      } else if (token.type === TokenType.STAR) {
+        this.advance();
+        stretch *= this.parseStretchFactor('*');
+      } else if (token.type === TokenType.SLASH) {
+        this.advance();
+        stretch /= this.parseStretchFactor('/');
+      } else if (token.type === TokenType.IDENTIFIER && PATTERN_TRANSFORMS.includes(token.value.toLowerCase())) {
+        transforms.push(this.parsePatternTransform());
+      } else {
+        break;
+      }
+    }
+
+    if (transpose !== 0) {
+      result.transpose = transpose;
+    }
+    if (stretch !== 1) {
+      result.stretch = stretch;
+    }
+    if (transforms.length > 0) {
+      result.transforms = transforms;
+    }
+
+    return result;
   }
 
   /**
-   * Parse a note: <pitch> <duration> [vel=<0..1>]
+   * Parse a stretch factor after * or /: <n> or <n>/<m>
+   */
+  private parseStretchFactor(operator: string): number {
+    const token = this.current();
+    const match = /^(\d+)(?:\/(\d+))?$/.exec(token.value);
+    if ((token.type !== TokenType.NUMBER && token.type !== TokenType.DURATION) || !match) {
+      throw new ParseError(
+        `Expected stretch factor after ${operator} (e.g., ${operator}2 or ${operator}3/2), got '${token.value || token.type}'`,
+        token.line,
+        token.column
+      );
+    }
+    this.advance();
+
+    const factor = parseInt(match[1], 10) / (match[2] !== undefined ? parseInt(match[2], 10) : 1);
+    if (!(factor > 0) || !isFinite(factor)) {
+      throw new ParseError(
+        `Invalid stretch factor: ${token.value}. Must be greater than 0`,
+        token.line,
+        token.column
+      );
+    }
+    return factor;
+  }
+
+  /**
+   * Parse a pattern transform: reverse | invert=<pitch> | rotate=<[+|-]n> | shuffle [seed=<n>]
+   */
+  private parsePatternTransform(): PatternTransform {
+    const token = this.advance();
+    const kind = token.value.toLowerCase() as PatternTransformKind;
+    const transform: PatternTransform = { kind, line: token.line, column: token.column };
+
+    if (kind === 'invert') {
+      this.expect(TokenType.EQUALS, 'Expected = after invert');
+      transform.axis = this.expectPitch('Expected pitch to invert around (e.g., invert=C4)');
+    } else if (kind === 'rotate') {
+      this.expect(TokenType.EQUALS, 'Expected = after rotate');
+      transform.steps = this.parseSignedInteger('Expected number of steps after rotate= (e.g., rotate=2)');
+    } else if (kind === 'shuffle') {
+      if (this.current().type === TokenType.SEED) {
+        this.advance();
+        this.expect(TokenType.EQUALS, 'Expected = after seed');
+        const seedToken = this.expect(TokenType.NUMBER, 'Expected number for seed');
+        transform.seed = parseInt(seedToken.value, 10);
+      }
+    }
+
+    return transform;
+  }
+
+  /**
+   * Parse pattern arguments: (<pitch|number|duration|parameter>, ...)
+   */
+  private parsePatternArguments(): (PatternArgument | ParameterRef)[] {
+    this.expect(TokenType.PAREN_OPEN);
+    const args: (PatternArgument | ParameterRef)[] = [];
+
+    while (this.current().type !== TokenType.PAREN_CLOSE) {
+      if (args.length > 0) {
+        this.expect(TokenType.COMMA, 'Expected , or ) in pattern arguments');
+      }
+
+      const token = this.current();
+      if (this.isParameter()) {
+        args.push(this.parseParameterRef(true));
+        continue;
+      }
+      if (this.isExpressionStart()) {
+        args.push(this.parseArgumentExpression());
+        continue;
+      }
+
+      let type: PatternArgument['type'];
+      if (token.type === TokenType.NOTE) {
+        type = 'pitch';
+      } else if (token.type === TokenType.NUMBER || token.type === TokenType.DECIMAL) {
+        type = 'number';
+      } else if (token.type === TokenType.DURATION) {
+        type = 'duration';
+      } else {
+        throw new ParseError(
+          `Expected pitch, number or duration as pattern argument, got '${token.value || token.type}'`,
+          token.line,
+          token.column
+        );
+      }
+      this.advance();
+      args.push({ type, value: token.value, line: token.line, column: token.column });
+    }
+
+    this.expect(TokenType.PAREN_CLOSE, 'Expected ) to close pattern arguments');
+    return args;
+  }
+
+  /**
+   * Parse a pattern argument given as an expression (e.g., accent - 0.2, root + 7)
+   */
+  private parseArgumentExpression(): PatternArgument | ParameterRef {
+    const token = this.current();
+    const operand = this.parseExpression();
+    const location = { line: token.line, column: token.column };
+
+    if (operand.type === 'number') {
+      return { type: 'number', value: String(operand.value), ...location };
+    }
+    if (operand.type === 'duration') {
+      return { type: 'duration', value: formatDuration(operand.value), ...location };
+    }
+    const pitch = this.toPitchValue(operand, token);
+    return typeof pitch === 'string' ? { type: 'pitch', value: pitch, ...location } : pitch;
+  }
+
+  /**
+   * Parse an integer with an optional sign: [+|-]<number>
+   */
+  private parseSignedInteger(message: string): number {
+    let sign = 1;
+    if (this.current().type === TokenType.PLUS) {
+      this.advance();
+    } else if (this.current().type === TokenType.MINUS) {
+      this.advance();
+      sign = -1;
+    }
+    const numberToken = this.expect(TokenType.NUMBER, message);
+    return sign * parseInt(numberToken.value, 10);
+  }
+
+  /**
+   * Parse a tempo change: tempo <bpm> | accel <bpm> <bars> | rit <bpm> <bars>
+   */
+  private parseTempoChange(): TempoChange {
+    const keywordToken = this.advance();
+    const keyword = keywordToken.value.toLowerCase();
+    const bpmToken = this.current();
+    const bpm = this.parseNumberValue(`Expected target BPM after ${keyword}`);
+
+    if (!Number.isInteger(bpm) || bpm <= 0) {
+      throw new ParseError(
+        `Invalid BPM value: ${bpm}`,
+        bpmToken.line,
+        bpmToken.column
+      );
+    }
+
+    const result: TempoChange = {
+      type: 'tempo',
+      mode: keywordToken.type === TokenType.ACCEL
+        ? 'accel'
+        : keywordToken.type === TokenType.RIT ? 'rit' : 'set',
+      bpm,
+      line: keywordToken.line,
+      column: keywordToken.column,
+    };
+
+    if (result.mode !== 'set') {
+      const barsToken = this.current();
+      const bars = this.parseNumberValue(
+        `Expected number of bars after ${keyword} ${bpm} (e.g., ${keyword} ${bpm} 2)`
+      );
+      if (!Number.isInteger(bars) || bars <= 0) {
+        throw new ParseError(
+          `Invalid ramp length: ${bars}. Must be a positive number of bars`,
+          barsToken.line,
+          barsToken.column
+        );
+      }
+      result.bars = bars;
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse tied continuations: (~ [<pitch>] <duration>)*
+   * @param allowPitch - Whether the pitch may be repeated after ~ (notes only)
+   */
+  private parseTies(allowPitch: boolean): NoteTie[] {
+    const ties: NoteTie[] = [];
+
+    while (this.current().type === TokenType.TIE) {
+      const tieToken = this.advance();
+      const tie: NoteTie = {
+        duration: '',
+        line: tieToken.line,
+        column: tieToken.column,
+      };
+
+      if (allowPitch && this.current().type === TokenType.NOTE) {
+        tie.pitch = this.expectPitch();
+      }
+
+      tie.duration = this.parseDurationString(
+        allowPitch ? 'Expected pitch or duration after ~' : 'Expected duration after ~'
+      );
+      ties.push(tie);
+    }
+
+    return ties;
+  }
+
+  /**
+   * Parse a note: <pitch> <duration> [~ [<pitch>] <duration>]* [vel=<0..1>] [p=<0..1>] [gate=<0..1>] [nudge=<offset>] [stacc|ten|legato|.|>]
    */
   private parseNote(): NoteNode {
-    const pitchToken = this.expect(TokenType.NOTE);
-    const durationToken = this.expect(TokenType.DURATION, 'Expected duration after note');
+    const pitchToken = this.current();
+    const pitch = this.isParameter()
+      ? this.parseParameterRef(true)
+      : this.isConstant() ? this.parsePitchExpression() : this.expectPitch();
+    const duration = this.parseDurationValue('Expected duration after note');
 
     const result: NoteNode = {
       type: 'note',
-      pitch: pitchToken.value,
-      duration: durationToken.value,
+      pitch,
+      duration,
       line: pitchToken.line,
       column: pitchToken.column,
     };
 
-    // Check for optional velocity
-    if (this.current().type === TokenType.IDENTIFIER && this.current().value.toLowerCase() === 'vel') {
-      this.advance();
-      this.expect(TokenType.EQUALS, 'Expected = after vel');
-      
-      const velToken = this.current();
-      let velocity: number;
-      if (velToken.type === TokenType.DECIMAL) {
-        velocity = parseFloat(this.advance().value);
-      } else if (velToken.type === TokenType.NUMBER) {
-        velocity = parseFloat(this.advance().value);
-      } else {
-        throw new ParseError('Expected number for velocity', velToken.line, velToken.column);
+    const ties = this.parseTies(true);
+    if (ties.length > 0) {
+      result.ties = ties;
+    }
+
+    this.parseNoteOptions(result);
+    return result;
+  }
+
+  /**
+   * Parse optional note settings in any order: vel=<0..1>, p=<0..1>, gate=<0..1>, nudge=<offset>, articulations
+   */
+  private parseNoteOptions(result: NoteNode | ChoiceNode): void {
+    while (true) {
+      const option = this.current().type === TokenType.IDENTIFIER ? this.current().value.toLowerCase() : '';
+      if (option === 'vel') {
+        result.velocity = this.parseVelocity();
+      } else if (option === 'p') {
+        result.probability = this.parseProbability();
+      } else if (this.isGateOption()) {
+        result.gate = this.parseGateOption();
+      } else if (option === 'nudge') {
+        result.nudge = this.parseNudge();
+      } else if (!this.parseArticulation(result)) {
+        break;
       }
+    }
+  }
+
+  /**
+   * Parse an articulation mark (stacc or ., ten, legato, >) if one comes next.
+   * @returns Whether a mark was consumed
+   */
+  private parseArticulation(result: NoteNode | ChordNode | ChoiceNode): boolean {
+    const token = this.current();
+    let articulation: Articulation | undefined;
+    if (token.type === TokenType.DOT) {
+      articulation = 'staccato';
+    } else if (token.type === TokenType.ANGLE_CLOSE) {
+      articulation = 'accent';
+    } else if (token.type === TokenType.IDENTIFIER && !this.isConstant()) {
+      articulation = ARTICULATION_WORDS[token.value.toLowerCase()];
+    }
+    if (articulation === undefined) {
+      return false;
+    }
+
+    this.advance();
+    result.articulations = result.articulations ?? [];
+    if (!result.articulations.includes(articulation)) {
+      result.articulations.push(articulation);
+    }
+    return true;
+  }
+
+  /**
+   * Parse a pitch choice: {<pitch>|<pitch>|...} or <<pitch> <pitch> ...>, then <duration> [vel=<0..1>] [p=<0..1>]
+   */
+  private parseChoice(): ChoiceNode {
+    const openToken = this.advance();
+    const random = openToken.type === TokenType.BRACE_OPEN;
+    const closeType = random ? TokenType.BRACE_CLOSE : TokenType.ANGLE_CLOSE;
+    const options: (string | ParameterRef)[] = [];
 
-      if (velocity < 0 || velocity > 1) {
+    while (this.current().type !== closeType) {
+      if (this.isAtEnd()) {
+        throw new ParseError(`Unclosed ${random ? '{' : '<'}`, openToken.line, openToken.column);
+      }
+      if (random && options.length > 0) {
+        this.expect(TokenType.PIPE, 'Expected | between choices (e.g., {C4|E4|G4})');
+      }
+
+      const token = this.current();
+      if (token.type === TokenType.NOTE) {
+        options.push(this.expectPitch());
+      } else if (this.isParameter()) {
+        options.push(this.parseParameterRef(true));
+      } else if (this.isConstant()) {
+        options.push(this.parsePitchExpression());
+      } else {
         throw new ParseError(
-          `Invalid velocity: ${velocity}. Must be between 0 and 1`,
-          velToken.line,
-          velToken.column
+          `Expected pitch in ${random ? 'choice' : 'alternation'}, got '${token.value || token.type}'`,
+          token.line,
+          token.column
         );
       }
-      result.velocity = velocity;
     }
+    this.advance(); // consume } or >
+
+    if (options.length === 0) {
+      throw new ParseError(
+        `Empty ${random ? 'choice' : 'alternation'}: list at least one pitch`,
+        openToken.line,
+        openToken.column
+      );
+    }
+
+    const result: ChoiceNode = {
+      type: 'choice',
+      mode: random ? 'random' : 'cycle',
+      options,
+      duration: this.parseDurationValue(`Expected duration after ${random ? 'choice' : 'alternation'}`),
+      line: openToken.line,
+      column: openToken.column,
+    };
 
+    this.parseNoteOptions(result);
     return result;
   }
 
+  /**
+   * Parse a velocity option: vel=<0..1> (or accent=<0..1> on steps), or a parameter inside a parameterized pattern
+   */
+  private parseVelocity(): number | ParameterRef {
+    const optionToken = this.advance(); // consume 'vel' (or 'accent')
+    this.expect(TokenType.EQUALS, `Expected = after ${optionToken.value}`);
+
+    if (this.isParameter()) {
+      return this.parseParameterRef(false);
+    }
+
+    const velToken = this.current();
+    const velocity = this.parseNumberValue('Expected number for velocity');
+
+    if (velocity < 0 || velocity > 1) {
+      throw new ParseError(
+        `Invalid velocity: ${velocity}. Must be between 0 and 1`,
+        velToken.line,
+        velToken.column
+      );
+    }
+    return velocity;
+  }
+
+  /**
+   * Parse a probability option: p=<0..1>
+   */
+  private parseProbability(): number {
+    this.advance(); // consume 'p'
+    this.expect(TokenType.EQUALS, 'Expected = after p');
+
+    const probabilityToken = this.current();
+    const probability = this.parseNumberValue('Expected number for probability');
+    if (probability < 0 || probability > 1) {
+      throw new ParseError(
+        `Invalid probability: ${probability}. Must be between 0 and 1`,
+        probabilityToken.line,
+        probabilityToken.column
+      );
+    }
+    return probability;
+  }
+
   /**
    * Parse a rest: r <duration>
    */
   private parseRest(): RestNode {
     const restToken = this.expect(TokenType.REST);
-    const durationToken = this.expect(TokenType.DURATION, 'Expected duration after rest');
+    const duration = this.parseDurationValue('Expected duration after rest');
 
     return {
       type: 'rest',
-      duration: durationToken.value,
+      duration,
       line: restToken.line,
       column: restToken.column,
     };
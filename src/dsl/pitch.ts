@@ -1,12 +1,53 @@
 /**
  * Pitch Parsing Module
- * Handles parsing of pitch strings (e.g., "C4", "D#3", "Bb2") and conversion to MIDI and frequency.
+ * Handles parsing of pitch strings (e.g., "C4", "D#3", "Bb2", "C##4", "m60", "A4+15c")
+ * and conversion to MIDI and frequency.
  */
 
 export interface Pitch {
   noteName: string;      // A-G
-  accidental: string;    // '#', 'b', or ''
-  octave: number;        // 0-9
+  accidental: string;    // '#', '##', 'b', 'bb', 'n' (natural), or ''
+  octave: number;        // 0-9 (-1 for the lowest MIDI notes written as m0-m11)
+  cents?: number;        // Detuning in cents (e.g., 15 for A4+15c)
+}
+
+/**
+ * Key signature: the accidental each note name picks up when none is written.
+ */
+export interface KeySignature {
+  tonic: string;         // e.g., 'Eb', 'F#'
+  mode: string;          // e.g., 'major', 'dorian'
+  accidentals: Record<string, string>; // Note name -> '#' or 'b' (only altered notes)
+}
+
+/**
+ * Scale from a Scala .scl file: the ratio of each degree above the tonic.
+ */
+export interface ScalaScale {
+  description: string;
+  ratios: number[];      // Degrees 1..n as frequency ratios; the last is the period (2 for an octave)
+}
+
+/**
+ * Keyboard mapping from a Scala .kbm file: which scale degree each MIDI note plays.
+ */
+export interface KeyboardMapping {
+  size: number;          // Keys in one repeat of the mapping (0 = every key plays the next degree)
+  firstNote: number;     // Lowest mapped MIDI note
+  lastNote: number;      // Highest mapped MIDI note
+  middleNote: number;    // MIDI note that plays degree 0
+  referenceNote: number; // MIDI note tuned to referenceFrequency
+  referenceFrequency: number; // Hz
+  octaveDegree: number;  // Degree the mapping repeats at (the formal octave)
+  degrees: (number | null)[]; // Degree of each key in the mapping (null = unmapped, silent)
+}
+
+/**
+ * Tuning: a scale laid out over the MIDI notes by a keyboard mapping.
+ */
+export interface Tuning {
+  scale: ScalaScale;
+  mapping: KeyboardMapping;
 }
 
 // Semitone offsets from C for each note name
@@ -20,14 +61,65 @@ const NOTE_SEMITONES: Record<string, number> = {
   'B': 11,
 };
 
+// Semitone offset of each accidental
+const ACCIDENTAL_OFFSETS: Record<string, number> = {
+  '#': 1,
+  '##': 2,
+  'b': -1,
+  'bb': -2,
+};
+
 const VALID_NOTES = ['A', 'B', 'C', 'D', 'E', 'F', 'G'];
+const NOTE_LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+// Spelling of each semitone for pitches given as MIDI numbers
+const MIDI_SPELLINGS: [noteName: string, accidental: string][] = [
+  ['C', 'n'], ['C', '#'], ['D', 'n'], ['D', '#'], ['E', 'n'], ['F', 'n'],
+  ['F', '#'], ['G', 'n'], ['G', '#'], ['A', 'n'], ['A', '#'], ['B', 'n'],
+];
+
+// Cent offset written after a pitch (e.g., +15c, -20.5c)
+const CENTS_SUFFIX_PATTERN = /([+-]\d+(?:\.\d+)?)c$/;
+const MIDI_PITCH_PATTERN = /^m(\d+)$/;
+const MAX_CENTS = 100;
+const MAX_MIDI = 127;
+
+// Scale steps (semitones from the tonic) for each supported mode
+const MODE_INTERVALS: Record<string, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  ionian: [0, 2, 4, 5, 7, 9, 11],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  aeolian: [0, 2, 3, 5, 7, 8, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+};
+
+// Standard tuning: A4 (MIDI 69) at 440 Hz, middle C (MIDI 60) as the tonic
+export const DEFAULT_REFERENCE_FREQUENCY = 440;
+const REFERENCE_NOTE = 69;
+const MIDDLE_NOTE = 60;
+
+const SCALE_ERROR = 'Invalid Scala scale';
+const MAPPING_ERROR = 'Invalid keyboard mapping';
+
+// Line of a Scala file, numbered from 1 for error messages
+interface ScalaLine {
+  text: string;
+  number: number;
+}
+
 const MIN_OCTAVE = 0;
 const MAX_OCTAVE = 9;
 
 /**
  * Parse a pitch string into its components.
+ * Accepts note names with up to two sharps or flats or a natural ("C##4", "Dbb4", "En4"),
+ * MIDI note numbers ("m60", spelled with sharps) and a cent offset on either ("A4+15c").
  * @param str - Pitch string like "C4", "D#3", "Bb2"
- * @returns Pitch object with noteName, accidental, and octave
+ * @returns Pitch object with noteName, accidental, octave and cents (when given)
  * @throws Error if the pitch string is invalid
  */
 export function parsePitch(str: string): Pitch {
@@ -40,6 +132,26 @@ export function parsePitch(str: string): Pitch {
     throw new Error('Invalid pitch: empty string');
   }
 
+  const centsMatch = CENTS_SUFFIX_PATTERN.exec(trimmed);
+  if (centsMatch) {
+    const cents = parseFloat(centsMatch[1]);
+    if (Math.abs(cents) > MAX_CENTS) {
+      throw new Error(`Invalid pitch: ${cents} cents out of range (-${MAX_CENTS} to ${MAX_CENTS})`);
+    }
+    const pitch = parsePitch(trimmed.slice(0, centsMatch.index));
+    return { ...pitch, cents };
+  }
+
+  const midiMatch = MIDI_PITCH_PATTERN.exec(trimmed);
+  if (midiMatch) {
+    const midi = parseInt(midiMatch[1], 10);
+    if (midi > MAX_MIDI) {
+      throw new Error(`Invalid pitch: MIDI note ${midi} out of range (0-${MAX_MIDI})`);
+    }
+    const [noteName, accidental] = MIDI_SPELLINGS[midi % 12];
+    return { noteName, accidental, octave: Math.floor(midi / 12) - 1 };
+  }
+
   // Extract note name (first character, case-insensitive)
   const noteName = trimmed[0].toUpperCase();
   if (!VALID_NOTES.includes(noteName)) {
@@ -49,10 +161,14 @@ export function parsePitch(str: string): Pitch {
   let index = 1;
   let accidental = '';
 
-  // Check for accidental (# or b)
-  if (index < trimmed.length) {
+  // Check for accidental (#, ##, b, bb, or n for natural)
+  const doubled = trimmed.slice(index, index + 2);
+  if (doubled === '##' || doubled === 'bb') {
+    accidental = doubled;
+    index += 2;
+  } else if (index < trimmed.length) {
     const char = trimmed[index];
-    if (char === '#' || char === 'b') {
+    if (char === '#' || char === 'b' || char === 'n') {
       accidental = char;
       index++;
     }
@@ -90,13 +206,7 @@ export function pitchToMidi(pitch: Pitch): number {
   // A4 = 12 * (4 + 1) + 9 = 69
   
   const baseSemitone = NOTE_SEMITONES[pitch.noteName];
-  let accidentalOffset = 0;
-  
-  if (pitch.accidental === '#') {
-    accidentalOffset = 1;
-  } else if (pitch.accidental === 'b') {
-    accidentalOffset = -1;
-  }
+  const accidentalOffset = ACCIDENTAL_OFFSETS[pitch.accidental] ?? 0;
 
   const midi = 12 * (pitch.octave + 1) + baseSemitone + accidentalOffset;
   return midi;
@@ -106,13 +216,22 @@ export function pitchToMidi(pitch: Pitch): number {
  * Convert MIDI note number to frequency in Hz.
  * A4 (MIDI 69) = 440 Hz
  * Formula: f = 440 * 2^((midi - 69) / 12)
- * @param midi - MIDI note number
+ * @param midi - MIDI note number; a fraction detunes it (69.15 = A4 + 15 cents)
  * @returns Frequency in Hz
  */
 export function midiToFrequency(midi: number): number {
   return 440 * Math.pow(2, (midi - 69) / 12);
 }
 
+/**
+ * Convert a frequency in Hz to a MIDI note number, the inverse of midiToFrequency.
+ * @param freq - Frequency in Hz
+ * @returns MIDI note number, fractional between semitones
+ */
+export function frequencyToMidi(freq: number): number {
+  return 69 + 12 * Math.log2(freq / 440);
+}
+
 /**
  * Convenience function to parse a pitch string and get its frequency.
  * @param str - Pitch string like "C4", "A4"
@@ -121,5 +240,285 @@ export function midiToFrequency(midi: number): number {
 export function pitchToFrequency(str: string): number {
   const pitch = parsePitch(str);
   const midi = pitchToMidi(pitch);
-  return midiToFrequency(midi);
+  return midiToFrequency(midi + (pitch.cents ?? 0) / 100);
+}
+
+/**
+ * Build a key signature from a tonic and a mode.
+ * The scale is spelled with one note per letter starting from the tonic,
+ * so each letter gets exactly one accidental (e.g., F# dorian -> F#, G#, C#).
+ * @param tonic - Tonic note name with optional accidental (e.g., "Eb", "F#")
+ * @param mode - Mode name (major, minor, or a church mode such as dorian)
+ * @returns KeySignature with the accidental for each altered note name
+ * @throws Error if the tonic or mode is unknown, or the key needs double accidentals
+ */
+export function createKeySignature(tonic: string, mode: string): KeySignature {
+  const match = /^([A-Ga-g])([#b]?)$/.exec(tonic.trim());
+  if (!match) {
+    throw new Error(`Invalid key: unknown tonic "${tonic}"`);
+  }
+
+  const modeName = mode.toLowerCase();
+  const intervals = MODE_INTERVALS[modeName];
+  if (!intervals) {
+    throw new Error(
+      `Invalid key: unknown mode "${mode}". Must be one of: ${Object.keys(MODE_INTERVALS).join(', ')}`
+    );
+  }
+
+  const tonicLetter = match[1].toUpperCase();
+  const tonicName = tonicLetter + match[2];
+  const tonicSemitone = NOTE_SEMITONES[tonicLetter] + (match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0);
+  const tonicIndex = NOTE_LETTERS.indexOf(tonicLetter);
+  const accidentals: Record<string, string> = {};
+
+  for (let degree = 0; degree < intervals.length; degree++) {
+    const letter = NOTE_LETTERS[(tonicIndex + degree) % NOTE_LETTERS.length];
+    // Offset from the natural note, folded into -6..5
+    const offset = ((tonicSemitone + intervals[degree] - NOTE_SEMITONES[letter]) % 12 + 18) % 12 - 6;
+    if (offset === 1) {
+      accidentals[letter] = '#';
+    } else if (offset === -1) {
+      accidentals[letter] = 'b';
+    } else if (offset !== 0) {
+      throw new Error(`Invalid key: ${tonicName} ${modeName} needs double accidentals`);
+    }
+  }
+
+  return { tonic: tonicName, mode: modeName, accidentals };
+}
+
+/**
+ * Apply a key signature to a pitch written without an accidental.
+ * Pitches with an explicit accidental (including a natural) are left as written.
+ * @param pitch - Pitch object
+ * @param key - Active key signature (none = pitch unchanged)
+ * @returns Pitch with the key's accidental filled in
+ */
+export function applyKeySignature(pitch: Pitch, key: KeySignature | undefined): Pitch {
+  if (!key || pitch.accidental !== '') {
+    return pitch;
+  }
+  const accidental = key.accidentals[pitch.noteName];
+  return accidental ? { ...pitch, accidental } : pitch;
+}
+
+/**
+ * Parse the text of a Scala scale (.scl) file.
+ * Lines starting with ! are comments. The first line is the description, the
+ * second the number of degrees, then one pitch per line: cents when it contains
+ * a period (e.g., 701.955), otherwise a ratio (e.g., 3/2 or 2). Anything after
+ * the pitch on its line is ignored.
+ * @param text - Contents of the .scl file
+ * @returns ScalaScale
+ * @throws Error if the text is not a valid scale
+ */
+export function parseScala(text: string): ScalaScale {
+  const [descriptionLine, ...rest] = scalaLines(text);
+  if (descriptionLine === undefined) {
+    throw new Error(`${SCALE_ERROR}: missing description`);
+  }
+
+  // The description may be blank; blank lines after it are skipped
+  const description = descriptionLine.text.trim();
+  const [countLine, ...pitchLines] = rest.filter(line => line.text.trim() !== '');
+  if (countLine === undefined) {
+    throw new Error(`${SCALE_ERROR}: missing number of notes`);
+  }
+  const count = parseScalaInteger(countLine, 'number of notes', SCALE_ERROR);
+  if (count < 1) {
+    throw new Error(`${SCALE_ERROR}: line ${countLine.number}: the scale needs at least one note`);
+  }
+  if (pitchLines.length < count) {
+    throw new Error(`${SCALE_ERROR}: expected ${count} notes, found ${pitchLines.length}`);
+  }
+
+  const ratios = pitchLines.slice(0, count).map(parseScalaPitch);
+
+  return { description, ratios };
+}
+
+/**
+ * Parse the text of a Scala keyboard mapping (.kbm) file.
+ * After comments (!), the lines are: map size, first note, last note, middle
+ * note, reference note, reference frequency, formal octave degree, then one
+ * degree per key of the map (x for a key that does not sound).
+ * @param text - Contents of the .kbm file
+ * @returns KeyboardMapping
+ * @throws Error if the text is not a valid mapping
+ */
+export function parseKeyboardMapping(text: string): KeyboardMapping {
+  const lines = scalaLines(text).filter(line => line.text.trim() !== '');
+  const fields = ['map size', 'first note', 'last note', 'middle note', 'reference note', 'reference frequency', 'octave degree'];
+  if (lines.length < fields.length) {
+    throw new Error(`${MAPPING_ERROR}: missing ${fields[lines.length]}`);
+  }
+
+  const [size, firstNote, lastNote, middleNote, referenceNote] = lines
+    .slice(0, 5)
+    .map((line, i) => parseScalaInteger(line, fields[i], MAPPING_ERROR));
+  const frequencyLine = lines[5];
+  const referenceFrequency = parseFloat(firstWord(frequencyLine));
+  if (!(referenceFrequency > 0)) {
+    throw new Error(
+      `${MAPPING_ERROR}: line ${frequencyLine.number}: expected reference frequency, got "${firstWord(frequencyLine)}"`
+    );
+  }
+  const octaveDegree = parseScalaInteger(lines[6], 'octave degree', MAPPING_ERROR);
+
+  for (const [i, note] of [firstNote, lastNote, middleNote, referenceNote].entries()) {
+    if (note > MAX_MIDI) {
+      throw new Error(`${MAPPING_ERROR}: ${fields[i + 1]} ${note} out of range (0-${MAX_MIDI})`);
+    }
+  }
+
+  // Keys without an entry at the end of the map do not sound
+  const degrees: (number | null)[] = Array.from({ length: size }, () => null);
+  for (const [i, line] of lines.slice(7, 7 + size).entries()) {
+    degrees[i] = firstWord(line).toLowerCase() === 'x' ? null : parseScalaInteger(line, 'degree', MAPPING_ERROR);
+  }
+
+  return { size, firstNote, lastNote, middleNote, referenceNote, referenceFrequency, octaveDegree, degrees };
+}
+
+/**
+ * Build a scale that divides the octave into equal steps (e.g., 19 for 19-EDO).
+ * @param divisions - Number of equal steps per octave
+ * @returns ScalaScale
+ */
+export function equalTemperament(divisions: number): ScalaScale {
+  return {
+    description: `${divisions}-EDO`,
+    ratios: Array.from({ length: divisions }, (_, i) => Math.pow(2, (i + 1) / divisions)),
+  };
+}
+
+/**
+ * Build the mapping Scala uses when no .kbm is given: consecutive MIDI notes
+ * play consecutive degrees, middle C plays degree 0 and A4 sounds at the
+ * reference frequency.
+ * @param referenceFrequency - Frequency of A4 in Hz (default 440)
+ * @returns KeyboardMapping
+ */
+export function linearMapping(referenceFrequency: number = DEFAULT_REFERENCE_FREQUENCY): KeyboardMapping {
+  return {
+    size: 0,
+    firstNote: 0,
+    lastNote: MAX_MIDI,
+    middleNote: MIDDLE_NOTE,
+    referenceNote: REFERENCE_NOTE,
+    referenceFrequency,
+    octaveDegree: 0,
+    degrees: [],
+  };
+}
+
+/**
+ * Combine a scale and a keyboard mapping into a tuning.
+ * @throws Error if the mapping's reference note does not sound
+ */
+export function createTuning(scale: ScalaScale, mapping: KeyboardMapping): Tuning {
+  const tuning = { scale, mapping };
+  if (keyRatio(mapping.referenceNote, tuning) === null) {
+    throw new Error(`${MAPPING_ERROR}: reference note ${mapping.referenceNote} is not mapped`);
+  }
+  return tuning;
+}
+
+/**
+ * Convert a MIDI note number to frequency in Hz under a tuning.
+ * A fractional part is a cent offset on top of the tuned note (69.15 = A4 + 15 cents).
+ * @param midi - MIDI note number
+ * @param tuning - Tuning to apply
+ * @returns Frequency in Hz, or null when the mapping leaves the note silent
+ */
+export function tunedFrequency(midi: number, tuning: Tuning): number | null {
+  const key = Math.round(midi);
+  const ratio = keyRatio(key, tuning);
+  if (ratio === null) {
+    return null;
+  }
+  const { referenceNote, referenceFrequency } = tuning.mapping;
+  const cents = Math.pow(2, (midi - key) / 12);
+  return referenceFrequency * (ratio / keyRatio(referenceNote, tuning)!) * cents;
+}
+
+/**
+ * Frequency ratio of a MIDI note above the mapping's middle note, or null if it is unmapped.
+ */
+function keyRatio(key: number, tuning: Tuning): number | null {
+  const { mapping } = tuning;
+  if (key < mapping.firstNote || key > mapping.lastNote) {
+    return null;
+  }
+
+  const offset = key - mapping.middleNote;
+  if (mapping.size === 0) {
+    return degreeRatio(offset, tuning.scale);
+  }
+
+  const repeats = Math.floor(offset / mapping.size);
+  const degree = mapping.degrees[offset - repeats * mapping.size];
+  if (degree === null) {
+    return null;
+  }
+  // A formal octave of 0 repeats the mapping at the scale's period
+  const octave = mapping.octaveDegree === 0
+    ? degreeRatio(tuning.scale.ratios.length, tuning.scale)
+    : degreeRatio(mapping.octaveDegree, tuning.scale);
+  return degreeRatio(degree, tuning.scale) * Math.pow(octave, repeats);
+}
+
+/**
+ * Frequency ratio of a scale degree above the tonic; degrees beyond the scale repeat at its period.
+ */
+function degreeRatio(degree: number, scale: ScalaScale): number {
+  const size = scale.ratios.length;
+  const periods = Math.floor(degree / size);
+  const step = degree - periods * size;
+  const period = scale.ratios[size - 1];
+  return Math.pow(period, periods) * (step === 0 ? 1 : scale.ratios[step - 1]);
+}
+
+/**
+ * Non-comment lines of a Scala file with their line numbers.
+ */
+function scalaLines(text: string): ScalaLine[] {
+  return text
+    .split(/\r?\n/)
+    .map((line, i) => ({ text: line, number: i + 1 }))
+    .filter(line => !line.text.trimStart().startsWith('!'));
+}
+
+function firstWord(line: ScalaLine): string {
+  return line.text.trim().split(/\s+/)[0];
+}
+
+function parseScalaInteger(line: ScalaLine, field: string, errorPrefix: string): number {
+  const word = firstWord(line);
+  if (!/^\d+$/.test(word)) {
+    throw new Error(`${errorPrefix}: line ${line.number}: expected ${field}, got "${word}"`);
+  }
+  return parseInt(word, 10);
+}
+
+/**
+ * Parse one Scala pitch: cents (contains a period) or a ratio (a/b or a whole number).
+ */
+function parseScalaPitch(line: ScalaLine): number {
+  const word = firstWord(line);
+  let ratio = NaN;
+  if (/^-?\d*\.\d*$/.test(word) && word !== '.' && word !== '-.') {
+    ratio = Math.pow(2, parseFloat(word) / 1200);
+  } else {
+    const match = /^(\d+)(?:\/(\d+))?$/.exec(word);
+    if (match) {
+      ratio = parseInt(match[1], 10) / (match[2] !== undefined ? parseInt(match[2], 10) : 1);
+    }
+  }
+
+  if (!(ratio > 0) || !Number.isFinite(ratio)) {
+    throw new Error(`${SCALE_ERROR}: line ${line.number}: invalid pitch "${word}"`);
+  }
+  return ratio;
 }
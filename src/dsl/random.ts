@@ -0,0 +1,54 @@
+/**
+ * Random Number Module
+ * Seedable pseudo-random numbers so that compiling the same source always
+ * produces the same events.
+ */
+
+/**
+ * A random number generator returning values in [0, 1).
+ */
+export type RandomGenerator = () => number;
+
+/** Seed used when the source does not specify one */
+export const DEFAULT_SEED = 1;
+
+/**
+ * Create a seeded random number generator (mulberry32).
+ * @param seed - Integer seed; the same seed always yields the same sequence
+ * @returns Generator returning values in [0, 1)
+ */
+export function createRandom(seed: number): RandomGenerator {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a random integer in [0, count).
+ * @param random - Random number generator
+ * @param count - Number of choices
+ * @returns Index of the chosen item
+ */
+export function randomIndex(random: RandomGenerator, count: number): number {
+  return Math.floor(random() * count);
+}
+
+/**
+ * Shuffle items into a random order (Fisher-Yates).
+ * @param random - Random number generator
+ * @param items - Items to shuffle; not modified
+ * @returns Shuffled copy of the items
+ */
+export function shuffle<T>(random: RandomGenerator, items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomIndex(random, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -4,6 +4,9 @@
  */
 
 import type { SynthEvent } from './compiler';
+import type { TimeSignature } from './parser';
+import { createTempoMap, positionToSeconds, secondsToPosition } from './tempo';
+import type { TempoMap } from './tempo';
 
 /**
  * Apply swing timing transform to a list of events.
@@ -11,53 +14,71 @@ import type { SynthEvent } from './compiler';
  * Swing works by delaying "off-beat" subdivisions. For example, with a grid of 16
  * (16th notes), every other 16th note (the "off-beats") gets delayed.
  * 
- * The delay amount is: swing * subdivisionDuration
- * Where subdivisionDuration = 60 / bpm / (grid / 4)
+ * The delay amount is: swing * subdivision (one grid step, 1/grid of a whole note)
+ * At a constant tempo this is swing * 60 / bpm / (grid / 4) seconds.
+ * 
+ * Subdivisions are counted from the start of each bar, so in meters whose bar
+ * holds an odd number of subdivisions (e.g., 3/8 on an 8th grid) every bar
+ * still begins on an on-beat.
+ * 
+ * Tuplet notes are never swung: they do not sit on the straight grid.
+ * 
+ * When a tempo map is given, the grid follows it: events are located in musical
+ * time, so off-beats stay off-beats through tempo changes and ramps.
  * 
  * @param events - Array of SynthEvents to transform
  * @param swing - Swing amount (0 to 0.75, where 0 = no swing)
  * @param grid - Grid subdivision (e.g., 16 for 16th notes)
- * @param bpm - Beats per minute
+ * @param bpm - Beats per minute (used when no tempo map is given)
+ * @param timeSignature - Time signature defining the bar length (default 4/4)
+ * @param tempoMap - Optional tempo map with tempo changes
  * @returns New array of SynthEvents with swing applied
  */
 export function applySwing(
   events: SynthEvent[],
   swing: number,
   grid: number,
-  bpm: number
+  bpm: number,
+  timeSignature: TimeSignature = { numerator: 4, denominator: 4 },
+  tempoMap: TempoMap = createTempoMap(bpm)
 ): SynthEvent[] {
   // No swing to apply
   if (swing === 0) {
     return events;
   }
 
-  // Calculate the duration of one grid subdivision in seconds
-  // grid is the denominator (e.g., 16 means 16th notes)
-  // A quarter note (1/4) at the given BPM = 60 / bpm seconds
-  // A grid subdivision = quarterNoteDuration * (4 / grid)
-  const quarterNoteDuration = 60 / bpm;
-  const subdivisionDuration = quarterNoteDuration * (4 / grid);
+  // Work in musical positions (whole notes): one grid subdivision is 1/grid
+  const subdivision = 1 / grid;
+  const barLength = timeSignature.numerator / timeSignature.denominator;
 
   // The delay to apply to off-beats
-  const swingDelay = swing * subdivisionDuration;
+  const swingDelay = swing * subdivision;
 
   // Transform events
   const transformedEvents = events.map(event => {
+    if (event.tuplet) {
+      return event;
+    }
+
+    const position = secondsToPosition(tempoMap, event.t);
+
     // Determine which subdivision this event falls on
     // Use a small epsilon for floating point comparison
-    const epsilon = subdivisionDuration * 0.001;
-    const subdivisionIndex = Math.round(event.t / subdivisionDuration);
+    const epsilon = subdivision * 0.001;
+    const barIndex = Math.floor((position + epsilon) / barLength);
+    const positionInBar = position - barIndex * barLength;
+    const subdivisionIndex = Math.round(positionInBar / subdivision);
     
     // Check if this event is close enough to a grid line
-    const gridAlignedTime = subdivisionIndex * subdivisionDuration;
-    const isOnGrid = Math.abs(event.t - gridAlignedTime) < epsilon;
+    const gridAlignedPosition = subdivisionIndex * subdivision;
+    const isOnGrid = Math.abs(positionInBar - gridAlignedPosition) < epsilon;
 
     // Off-beats are odd subdivision indices (1, 3, 5, 7, ...)
     const isOffBeat = subdivisionIndex % 2 === 1;
 
     if (isOnGrid && isOffBeat) {
       // Apply swing delay to off-beats
-      const newTime = Math.max(0, event.t + swingDelay);
+      const newTime = Math.max(0, positionToSeconds(tempoMap, position + swingDelay));
       return {
         ...event,
         t: newTime,
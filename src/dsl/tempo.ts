@@ -0,0 +1,218 @@
+/**
+ * Tempo Map Module
+ * Converts musical positions (measured in whole notes) to seconds and back,
+ * following tempo changes and gradual accelerando/ritardando ramps.
+ */
+
+/**
+ * A tempo marker placed at a musical position.
+ */
+export interface TempoMarker {
+  position: number;    // Position in whole notes from the start
+  bpm: number;         // Target tempo
+  rampLength?: number; // Ramp length in whole notes (undefined = immediate change)
+}
+
+/**
+ * A piece of the tempo map where tempo is either constant or changes linearly
+ * (in musical time) from startBpm to endBpm.
+ */
+export interface TempoSegment {
+  startPosition: number; // Position in whole notes
+  endPosition: number;   // Position in whole notes (Infinity for the last segment)
+  startTime: number;     // Start time in seconds
+  startBpm: number;
+  endBpm: number;
+}
+
+/**
+ * Tempo map shared by the compiler, swing transform and scheduler.
+ */
+export interface TempoMap {
+  segments: TempoSegment[];
+}
+
+/** One whole note lasts 4 quarter-note beats: seconds = wholeNotes * 240 / bpm */
+const SECONDS_PER_WHOLE_NOTE_AT_1_BPM = 240;
+
+/**
+ * Tempo at a position inside a segment.
+ */
+function bpmInSegment(segment: TempoSegment, position: number): number {
+  if (segment.startBpm === segment.endBpm) {
+    return segment.startBpm;
+  }
+  const length = segment.endPosition - segment.startPosition;
+  const progress = (position - segment.startPosition) / length;
+  return segment.startBpm + (segment.endBpm - segment.startBpm) * progress;
+}
+
+/**
+ * Seconds elapsed between the start of a segment and a position inside it.
+ * For ramps, tempo changes linearly over musical time, so the elapsed time is
+ * the integral of 240 / bpm(p) dp.
+ */
+function secondsInSegment(segment: TempoSegment, position: number): number {
+  const offset = position - segment.startPosition;
+  if (segment.startBpm === segment.endBpm) {
+    return offset * SECONDS_PER_WHOLE_NOTE_AT_1_BPM / segment.startBpm;
+  }
+  const length = segment.endPosition - segment.startPosition;
+  const slope = (segment.endBpm - segment.startBpm) / length;
+  const bpm = bpmInSegment(segment, position);
+  return (SECONDS_PER_WHOLE_NOTE_AT_1_BPM / slope) * Math.log(bpm / segment.startBpm);
+}
+
+/**
+ * Position inside a segment reached after a number of seconds (inverse of secondsInSegment).
+ */
+function positionInSegment(segment: TempoSegment, seconds: number): number {
+  if (segment.startBpm === segment.endBpm) {
+    return segment.startPosition + seconds * segment.startBpm / SECONDS_PER_WHOLE_NOTE_AT_1_BPM;
+  }
+  const length = segment.endPosition - segment.startPosition;
+  const slope = (segment.endBpm - segment.startBpm) / length;
+  const bpm = segment.startBpm * Math.exp(seconds * slope / SECONDS_PER_WHOLE_NOTE_AT_1_BPM);
+  return segment.startPosition + (bpm - segment.startBpm) / slope;
+}
+
+/**
+ * Find the segment containing a position.
+ */
+function findSegmentByPosition(map: TempoMap, position: number): TempoSegment {
+  for (let i = map.segments.length - 1; i > 0; i--) {
+    if (position >= map.segments[i].startPosition) {
+      return map.segments[i];
+    }
+  }
+  return map.segments[0];
+}
+
+/**
+ * Find the segment containing a time in seconds.
+ */
+function findSegmentByTime(map: TempoMap, seconds: number): TempoSegment {
+  for (let i = map.segments.length - 1; i > 0; i--) {
+    if (seconds >= map.segments[i].startTime) {
+      return map.segments[i];
+    }
+  }
+  return map.segments[0];
+}
+
+/**
+ * Build a tempo map from a base tempo and a list of markers.
+ *
+ * Markers are applied in position order. A marker placed while a ramp is still
+ * in progress cuts the ramp short at the tempo reached so far. When several
+ * markers share a position, the last one wins.
+ *
+ * @param baseBpm - Tempo at position 0
+ * @param markers - Tempo markers (any order)
+ * @returns Tempo map
+ */
+export function createTempoMap(baseBpm: number, markers: TempoMarker[] = []): TempoMap {
+  if (baseBpm <= 0) {
+    throw new Error(`Invalid BPM: must be positive, got ${baseBpm}`);
+  }
+
+  const sorted = [...markers].sort((a, b) => a.position - b.position);
+  const segments: TempoSegment[] = [
+    { startPosition: 0, endPosition: Infinity, startTime: 0, startBpm: baseBpm, endBpm: baseBpm },
+  ];
+
+  for (const marker of sorted) {
+    // Drop segments that start at or after this marker (including a ramp's held tail)
+    while (segments.length > 1 && segments[segments.length - 1].startPosition >= marker.position) {
+      segments.pop();
+    }
+
+    // Cut the remaining segment at the marker position
+    const last = segments[segments.length - 1];
+    const currentBpm = marker.position < last.endPosition
+      ? bpmInSegment(last, marker.position)
+      : last.endBpm;
+    if (last.startPosition >= marker.position) {
+      // Marker at position 0 replaces the initial segment
+      segments.pop();
+    } else {
+      last.endBpm = currentBpm;
+      last.endPosition = marker.position;
+    }
+
+    if (marker.rampLength !== undefined && marker.rampLength > 0) {
+      const rampEnd = marker.position + marker.rampLength;
+      segments.push({
+        startPosition: marker.position,
+        endPosition: rampEnd,
+        startTime: 0,
+        startBpm: currentBpm,
+        endBpm: marker.bpm,
+      });
+      segments.push({
+        startPosition: rampEnd,
+        endPosition: Infinity,
+        startTime: 0,
+        startBpm: marker.bpm,
+        endBpm: marker.bpm,
+      });
+    } else {
+      segments.push({
+        startPosition: marker.position,
+        endPosition: Infinity,
+        startTime: 0,
+        startBpm: marker.bpm,
+        endBpm: marker.bpm,
+      });
+    }
+  }
+
+  // Accumulate segment start times
+  for (let i = 1; i < segments.length; i++) {
+    const previous = segments[i - 1];
+    segments[i].startTime = previous.startTime + secondsInSegment(previous, previous.endPosition);
+  }
+
+  return { segments };
+}
+
+/**
+ * Convert a musical position to seconds.
+ * @param map - Tempo map
+ * @param position - Position in whole notes
+ * @returns Time in seconds
+ */
+export function positionToSeconds(map: TempoMap, position: number): number {
+  const segment = findSegmentByPosition(map, position);
+  return segment.startTime + secondsInSegment(segment, position);
+}
+
+/**
+ * Convert a time in seconds to a musical position.
+ * @param map - Tempo map
+ * @param seconds - Time in seconds
+ * @returns Position in whole notes
+ */
+export function secondsToPosition(map: TempoMap, seconds: number): number {
+  const segment = findSegmentByTime(map, seconds);
+  return positionInSegment(segment, seconds - segment.startTime);
+}
+
+/**
+ * Get the tempo at a musical position.
+ * @param map - Tempo map
+ * @param position - Position in whole notes
+ * @returns Tempo in BPM
+ */
+export function bpmAtPosition(map: TempoMap, position: number): number {
+  return bpmInSegment(findSegmentByPosition(map, position), position);
+}
+
+/**
+ * Check whether a tempo map contains any tempo change.
+ * @param map - Tempo map
+ * @returns True if the tempo is not constant
+ */
+export function hasTempoChanges(map: TempoMap): boolean {
+  return map.segments.length > 1;
+}
@@ -7,9 +7,9 @@ export const TokenType = {
   BPM: 'BPM',           // 'bpm' keyword
   INST: 'INST',         // 'inst' keyword
   SEQ: 'SEQ',           // 'seq:' keyword
-  NOTE: 'NOTE',         // Note like 'C4', 'D#3', 'Bb2'
+  NOTE: 'NOTE',         // Note like 'C4', 'D#3', 'Bb2', 'En4'
   REST: 'REST',         // 'r' for rest
-  DURATION: 'DURATION', // Duration like '1/4', '1/8'
+  DURATION: 'DURATION', // Duration like '1/4', '1/8', '1/8t', '1/4.'
   NUMBER: 'NUMBER',     // Numeric value (for BPM)
   IDENTIFIER: 'IDENTIFIER', // Identifier (instrument name, waveform)
   COMMA: 'COMMA',       // ','
@@ -27,8 +27,37 @@ export const TokenType = {
   BRACKET_CLOSE: 'BRACKET_CLOSE', // ']'
   BRACE_OPEN: 'BRACE_OPEN',       // '{'
   BRACE_CLOSE: 'BRACE_CLOSE',     // '}'
+  ANGLE_OPEN: 'ANGLE_OPEN',       // '<'
+  ANGLE_CLOSE: 'ANGLE_CLOSE',     // '>'
+  PIPE: 'PIPE',         // '|'
+  DOT: 'DOT',           // '.' on its own (staccato mark)
+  STRING: 'STRING',     // Double-quoted string literal, value without quotes (e.g., "x..x"); triple quotes span lines
   REPEAT: 'REPEAT',     // 'xN' repetition marker (e.g., x4)
   DECIMAL: 'DECIMAL',   // Decimal number (e.g., 0.5, 0.75)
+  TIME: 'TIME',         // 'time' keyword (time signature)
+  TEMPO: 'TEMPO',       // 'tempo' keyword (tempo change)
+  ACCEL: 'ACCEL',       // 'accel' keyword (gradual speed-up)
+  RIT: 'RIT',           // 'rit' keyword (gradual slow-down)
+  TUPLET: 'TUPLET',     // Tuplet ratio (e.g., 3:2)
+  TIE: 'TIE',           // '~' tie operator
+  PLUS: 'PLUS',         // '+'
+  PAREN_OPEN: 'PAREN_OPEN',   // '('
+  PAREN_CLOSE: 'PAREN_CLOSE', // ')'
+  MINUS: 'MINUS',       // '-'
+  STAR: 'STAR',         // '*'
+  SLASH: 'SLASH',       // '/' (not part of a duration or comment)
+  KEY: 'KEY',           // 'key' keyword (key signature)
+  LET: 'LET',           // 'let' keyword (program constant)
+  SEED: 'SEED',         // 'seed' keyword (random seed directive and seed= options)
+  GATE: 'GATE',         // 'gate' keyword (gate directive and gate= options)
+  HUMANIZE: 'HUMANIZE', // 'humanize' keyword (timing and velocity jitter)
+  TUNING: 'TUNING',     // 'tuning' keyword (reference pitch, EDO or Scala scale)
+  SECTION: 'SECTION',   // 'section' keyword (song section holding tracks)
+  SONG: 'SONG',         // 'song' keyword (order of the sections)
+  MILLISECONDS: 'MILLISECONDS', // Time in milliseconds (e.g., 8ms, 2.5ms)
+  VOICELEAD: 'VOICELEAD', // 'voicelead' keyword (voice-led chord block)
+  PITCH_CLASS: 'PITCH_CLASS', // Note name without octave that is not an identifier (e.g., 'F#')
+  CHORD_SYMBOL: 'CHORD_SYMBOL', // Chord symbol that is not an identifier (e.g., 'Am/C', 'F#m7')
 } as const;
 
 export type TokenType = typeof TokenType[keyof typeof TokenType];
@@ -52,11 +81,34 @@ export class TokenizerError extends Error {
   }
 }
 
-// Pattern to match notes: letter + optional accidental + octave
-const NOTE_PATTERN = /^[A-Ga-g][#b]?\d+$/;
+// Pattern to match notes: letter + optional accidental (##, bb, #, b, n = natural) + octave,
+// or a MIDI note number (e.g., m60)
+const NOTE_PATTERN = /^(?:[A-Ga-g](?:##|bb|[#bn])?\d+|m\d+)$/;
 
-// Pattern to match durations: numerator/denominator
-const DURATION_PATTERN = /^\d+\/\d+$/;
+// Pattern to match a cent offset written straight after a note (e.g., the +15c of A4+15c)
+// Sticky: set lastIndex to the position to match there
+const CENTS_PATTERN = /[+-]\d+(?:\.\d+)?c(?![a-zA-Z0-9_])/y;
+
+// Pattern to match a note name without octave (e.g., key tonics like F#)
+const PITCH_CLASS_PATTERN = /^[A-Ga-g][#b]?$/;
+
+// Pattern to match chord-symbol-like words (validated by the parser)
+const CHORD_SYMBOL_PATTERN = /^[A-G][#b]?[a-z0-9#]*(\/[A-G][#b]?)?$/;
+
+// Pattern to match 11th and 13th chord symbols, which would otherwise read as notes (e.g., C13)
+const EXTENDED_CHORD_PATTERN = /^[A-G][#b]?1[13]$/;
+
+// Pattern to match durations: numerator/denominator, optional 't' for triplets,
+// up to two dots for dotted values
+const DURATION_PATTERN = /^\d+\/\d+t?\.{0,2}$/;
+
+// Pattern to match a tuplet ratio at the current position (e.g., 3:2, 5:4)
+// Sticky: set lastIndex to the position to match there
+const TUPLET_PATTERN = /\d+:\d+/y;
+
+// Pattern to match the hyphenated words the DSL knows (e.g., the as-played arp mode)
+// Sticky: set lastIndex to the position to match there
+const HYPHENATED_WORD_PATTERN = /as-played\b/iy;
 
 // Pattern to match numbers
 const NUMBER_PATTERN = /^\d+$/;
@@ -67,6 +119,9 @@ const IDENTIFIER_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 // Pattern for decimal numbers (e.g., 0.5, 0.75)
 const DECIMAL_PATTERN = /^\d+\.\d+$/;
 
+// Pattern for times in milliseconds (e.g., 8ms, 2.5ms)
+const MILLISECONDS_PATTERN = /^\d+(\.\d+)?ms$/;
+
 // Pattern for repeat markers (e.g., x4, x16)
 const REPEAT_PATTERN = /^x\d+$/i;
 
@@ -77,6 +132,28 @@ function isNote(str: string): boolean {
   return NOTE_PATTERN.test(str);
 }
 
+/**
+ * Check if a string is a note name without octave
+ */
+function isPitchClass(str: string): boolean {
+  return PITCH_CLASS_PATTERN.test(str);
+}
+
+/**
+ * Check if a string looks like a chord symbol
+ */
+function isChordSymbol(str: string): boolean {
+  return CHORD_SYMBOL_PATTERN.test(str);
+}
+
+/**
+ * Check if a string is an 11th or 13th chord symbol that reads like a note
+ * with an octave too high to be one (e.g., C11, Bb13)
+ */
+function isExtendedChordSymbol(str: string): boolean {
+  return EXTENDED_CHORD_PATTERN.test(str);
+}
+
 /**
  * Check if a string is a valid duration token
  */
@@ -105,6 +182,13 @@ function isDecimal(str: string): boolean {
   return DECIMAL_PATTERN.test(str);
 }
 
+/**
+ * Check if a string is a time in milliseconds
+ */
+function isMilliseconds(str: string): boolean {
+  return MILLISECONDS_PATTERN.test(str);
+}
+
 /**
  * Check if a string is a valid repeat marker (xN)
  */
@@ -215,6 +299,98 @@ export function tokenize(input: string): Token[] {
       continue;
     }
 
+    if (char === '~') {
+      tokens.push(createToken(TokenType.TIE, '~', startLine, startColumn));
+      advance();
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push(createToken(TokenType.PAREN_OPEN, '(', startLine, startColumn));
+      advance();
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push(createToken(TokenType.PAREN_CLOSE, ')', startLine, startColumn));
+      advance();
+      continue;
+    }
+
+    if (char === '+') {
+      tokens.push(createToken(TokenType.PLUS, '+', startLine, startColumn));
+      advance();
+      continue;
+    }
+
+    if (char === '-') {
+      tokens.push(createToken(TokenType.MINUS, '-', startLine, startColumn));
+      advance();
+      continue;
+    }
+
+    if (char === '*') {
+      tokens.push(createToken(TokenType.STAR, '*', startLine, startColumn));
+      advance();
+      continue;
+    }
+
+    // Comments were skipped above, so a slash here stands alone (e.g., use riff /2)
+    if (char === '/') {
+      tokens.push(createToken(TokenType.SLASH, '/', startLine, startColumn));
+      advance();
+      continue;
+    }
+
+    if (char === '<') {
+      tokens.push(createToken(TokenType.ANGLE_OPEN, '<', startLine, startColumn));
+      advance();
+      continue;
+    }
+
+    if (char === '>') {
+      tokens.push(createToken(TokenType.ANGLE_CLOSE, '>', startLine, startColumn));
+      advance();
+      continue;
+    }
+
+    if (char === '|') {
+      tokens.push(createToken(TokenType.PIPE, '|', startLine, startColumn));
+      advance();
+      continue;
+    }
+
+    // String literal: everything up to the closing quote on the same line
+    // Triple-quoted string: may span lines (e.g., the text of a Scala file).
+    // A line break right after the opening quotes is not part of the value.
+    if (input.startsWith('"""', pos)) {
+      const end = input.indexOf('"""', pos + 3);
+      if (end === -1) {
+        throw new TokenizerError('Unterminated string', startLine, startColumn);
+      }
+      const value = input.slice(pos + 3, end).replace(/^\r?\n/, '');
+      while (pos < end + 3) {
+        advance();
+      }
+      tokens.push(createToken(TokenType.STRING, value, startLine, startColumn));
+      continue;
+    }
+
+    if (char === '"') {
+      advance();
+      let value = '';
+      while (pos < input.length && currentChar() !== '"' && currentChar() !== '\n') {
+        value += currentChar();
+        advance();
+      }
+      if (currentChar() !== '"') {
+        throw new TokenizerError('Unterminated string', startLine, startColumn);
+      }
+      advance();
+      tokens.push(createToken(TokenType.STRING, value, startLine, startColumn));
+      continue;
+    }
+
     if (char === '{') {
       tokens.push(createToken(TokenType.BRACE_OPEN, '{', startLine, startColumn));
       advance();
@@ -227,6 +403,28 @@ export function tokenize(input: string): Token[] {
       continue;
     }
 
+    // Tuplet ratio: digits, colon, digits (e.g., 3:2)
+    TUPLET_PATTERN.lastIndex = pos;
+    const tupletMatch = TUPLET_PATTERN.exec(input);
+    if (tupletMatch) {
+      for (let i = 0; i < tupletMatch[0].length; i++) {
+        advance();
+      }
+      tokens.push(createToken(TokenType.TUPLET, tupletMatch[0], startLine, startColumn));
+      continue;
+    }
+
+    // Hyphenated word: read as a single identifier
+    HYPHENATED_WORD_PATTERN.lastIndex = pos;
+    const hyphenatedMatch = HYPHENATED_WORD_PATTERN.exec(input);
+    if (hyphenatedMatch) {
+      for (let i = 0; i < hyphenatedMatch[0].length; i++) {
+        advance();
+      }
+      tokens.push(createToken(TokenType.IDENTIFIER, hyphenatedMatch[0], startLine, startColumn));
+      continue;
+    }
+
     // Read a word token
     const word = readWord();
     if (word.length === 0) {
@@ -236,7 +434,9 @@ export function tokenize(input: string): Token[] {
     // Classify the word
     const lowerWord = word.toLowerCase();
 
-    if (lowerWord === 'bpm') {
+    if (word === '.') {
+      tokens.push(createToken(TokenType.DOT, word, startLine, startColumn));
+    } else if (lowerWord === 'bpm') {
       tokens.push(createToken(TokenType.BPM, word, startLine, startColumn));
     } else if (lowerWord === 'inst') {
       tokens.push(createToken(TokenType.INST, word, startLine, startColumn));
@@ -248,6 +448,32 @@ export function tokenize(input: string): Token[] {
       tokens.push(createToken(TokenType.LOOP, word, startLine, startColumn));
     } else if (lowerWord === 'grid') {
       tokens.push(createToken(TokenType.GRID, word, startLine, startColumn));
+    } else if (lowerWord === 'time') {
+      tokens.push(createToken(TokenType.TIME, word, startLine, startColumn));
+    } else if (lowerWord === 'tempo') {
+      tokens.push(createToken(TokenType.TEMPO, word, startLine, startColumn));
+    } else if (lowerWord === 'accel') {
+      tokens.push(createToken(TokenType.ACCEL, word, startLine, startColumn));
+    } else if (lowerWord === 'rit') {
+      tokens.push(createToken(TokenType.RIT, word, startLine, startColumn));
+    } else if (lowerWord === 'key') {
+      tokens.push(createToken(TokenType.KEY, word, startLine, startColumn));
+    } else if (lowerWord === 'seed') {
+      tokens.push(createToken(TokenType.SEED, word, startLine, startColumn));
+    } else if (lowerWord === 'gate') {
+      tokens.push(createToken(TokenType.GATE, word, startLine, startColumn));
+    } else if (lowerWord === 'humanize') {
+      tokens.push(createToken(TokenType.HUMANIZE, word, startLine, startColumn));
+    } else if (lowerWord === 'tuning') {
+      tokens.push(createToken(TokenType.TUNING, word, startLine, startColumn));
+    } else if (lowerWord === 'section') {
+      tokens.push(createToken(TokenType.SECTION, word, startLine, startColumn));
+    } else if (lowerWord === 'song') {
+      tokens.push(createToken(TokenType.SONG, word, startLine, startColumn));
+    } else if (lowerWord === 'let') {
+      tokens.push(createToken(TokenType.LET, word, startLine, startColumn));
+    } else if (lowerWord === 'voicelead') {
+      tokens.push(createToken(TokenType.VOICELEAD, word, startLine, startColumn));
     } else if (lowerWord === 'track') {
       tokens.push(createToken(TokenType.TRACK, word, startLine, startColumn));
     } else if (lowerWord === 'pattern') {
@@ -258,8 +484,19 @@ export function tokenize(input: string): Token[] {
       tokens.push(createToken(TokenType.REST, word, startLine, startColumn));
     } else if (isRepeat(word)) {
       tokens.push(createToken(TokenType.REPEAT, word, startLine, startColumn));
+    } else if (isExtendedChordSymbol(word)) {
+      tokens.push(createToken(TokenType.CHORD_SYMBOL, word, startLine, startColumn));
     } else if (isNote(word)) {
-      tokens.push(createToken(TokenType.NOTE, word, startLine, startColumn));
+      CENTS_PATTERN.lastIndex = pos;
+      const centsMatch = CENTS_PATTERN.exec(input);
+      if (centsMatch) {
+        for (let i = 0; i < centsMatch[0].length; i++) {
+          advance();
+        }
+      }
+      tokens.push(createToken(TokenType.NOTE, word + (centsMatch?.[0] ?? ''), startLine, startColumn));
+    } else if (isMilliseconds(word)) {
+      tokens.push(createToken(TokenType.MILLISECONDS, word, startLine, startColumn));
     } else if (isDuration(word)) {
       tokens.push(createToken(TokenType.DURATION, word, startLine, startColumn));
     } else if (isDecimal(word)) {
@@ -268,6 +505,10 @@ export function tokenize(input: string): Token[] {
       tokens.push(createToken(TokenType.NUMBER, word, startLine, startColumn));
     } else if (isIdentifier(word)) {
       tokens.push(createToken(TokenType.IDENTIFIER, word, startLine, startColumn));
+    } else if (isPitchClass(word)) {
+      tokens.push(createToken(TokenType.PITCH_CLASS, word, startLine, startColumn));
+    } else if (isChordSymbol(word)) {
+      tokens.push(createToken(TokenType.CHORD_SYMBOL, word, startLine, startColumn));
     } else {
       throw new TokenizerError(`Invalid token '${word}'`, startLine, startColumn);
     }
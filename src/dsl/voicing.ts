@@ -0,0 +1,105 @@
+/**
+ * Chord Voicing Module
+ * Re-voices chords given as MIDI note numbers: inversions, drop-2 and open voicings,
+ * and voice-leading towards the previous chord.
+ */
+
+/**
+ * Voicing modifiers written after a chord (e.g., inv=1 drop2).
+ */
+export interface ChordVoicing {
+  inversion?: number;  // Number of times the lowest note moves up an octave
+  drop2?: boolean;     // Second-highest note drops an octave
+  open?: boolean;      // Every second note from the bottom moves up an octave
+}
+
+/** Octave shifts tried when searching for the nearest voicing */
+const VOICE_LEAD_OCTAVE_RANGE = 2;
+
+/**
+ * Sort MIDI notes from lowest to highest without modifying the input.
+ */
+function sortAscending(midis: number[]): number[] {
+  return [...midis].sort((a, b) => a - b);
+}
+
+/**
+ * Invert a chord: move the lowest note up an octave, `count` times.
+ * @param midis - Chord notes
+ * @param count - Number of inversions (1 = first inversion)
+ * @returns Inverted chord, lowest note first
+ */
+export function invertChord(midis: number[], count: number): number[] {
+  const notes = sortAscending(midis);
+  for (let i = 0; i < count && notes.length > 0; i++) {
+    const lowest = notes.shift()!;
+    notes.push(lowest + 12);
+    notes.sort((a, b) => a - b);
+  }
+  return notes;
+}
+
+/**
+ * Apply voicing modifiers to a chord: inversion first, then drop-2, then open spread.
+ * @param midis - Chord notes as written
+ * @param voicing - Voicing modifiers
+ * @returns Re-voiced chord, lowest note first
+ */
+export function applyVoicing(midis: number[], voicing: ChordVoicing): number[] {
+  let notes = invertChord(midis, voicing.inversion ?? 0);
+
+  if (voicing.drop2 && notes.length >= 2) {
+    notes[notes.length - 2] -= 12;
+    notes = sortAscending(notes);
+  }
+
+  if (voicing.open) {
+    notes = sortAscending(notes.map((midi, index) => (index % 2 === 1 ? midi + 12 : midi)));
+  }
+
+  return notes;
+}
+
+/**
+ * Distance between two chords: how far each note has to move to the
+ * closest note of the previous chord.
+ */
+function voicingDistance(midis: number[], previous: number[]): number {
+  let total = 0;
+  for (const midi of midis) {
+    total += Math.min(...previous.map(p => Math.abs(midi - p)));
+  }
+  return total;
+}
+
+/**
+ * Re-voice a chord to the inversion nearest the previous chord.
+ * Every inversion is tried in a few octaves around the written one; ties go to
+ * the smallest octave shift, then the lowest inversion.
+ * @param midis - Chord notes as written
+ * @param previous - Notes of the previous chord
+ * @returns Nearest voicing, lowest note first
+ */
+export function voiceLead(midis: number[], previous: number[]): number[] {
+  if (previous.length === 0 || midis.length === 0) {
+    return sortAscending(midis);
+  }
+
+  let best = sortAscending(midis);
+  let bestDistance = voicingDistance(best, previous);
+
+  for (let shift = 0; shift <= VOICE_LEAD_OCTAVE_RANGE; shift++) {
+    for (const octave of shift === 0 ? [0] : [-shift, shift]) {
+      for (let inversion = 0; inversion < midis.length; inversion++) {
+        const candidate = invertChord(midis, inversion).map(midi => midi + octave * 12);
+        const distance = voicingDistance(candidate, previous);
+        if (distance < bestDistance) {
+          best = candidate;
+          bestDistance = distance;
+        }
+      }
+    }
+  }
+
+  return best;
+}
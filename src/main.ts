@@ -16,8 +16,16 @@ import {
   isTrackSoloed,
   getTrackNames,
   getTransportState,
+  calculateLoopDuration,
+  getBarBeatPosition,
+  getCurrentBpm,
+  getCurrentTimeSignature,
+  getCurrentTempoMap,
+  getTempoAtPlayhead,
 } from './audio/scheduler'
 import type { TransportState } from './audio/scheduler'
+import type { TimeSignature } from './dsl/parser'
+import type { TempoMap } from './dsl/tempo'
 import { initVisualizer, startVisualizer, stopVisualizer, setVisualizerTracks, updateVisualizerPlayhead } from './ui/visualizer'
 
 // Example DSL program to prefill the editor
@@ -129,12 +137,17 @@ function updateBpmDisplay(bpm: number): void {
 /**
  * Update loop length display (10.1.3)
  */
-function updateLoopLengthDisplay(loopBars: number, bpm: number): void {
+function updateLoopLengthDisplay(
+  loopBars: number,
+  bpm: number,
+  timeSignature: TimeSignature,
+  tempoMap: TempoMap
+): void {
   if (loopLengthDisplay) {
     if (loopBars > 0) {
-      // Calculate loop duration in seconds (4 beats per bar)
-      const loopDurationSec = (loopBars * 4 * 60) / bpm
-      loopLengthDisplay.textContent = `Loop: ${loopBars} bar${loopBars > 1 ? 's' : ''} (${formatTime(loopDurationSec)})`
+      const loopDurationSec = calculateLoopDuration(loopBars, bpm, timeSignature, tempoMap)
+      const meter = `${timeSignature.numerator}/${timeSignature.denominator}`
+      loopLengthDisplay.textContent = `Loop: ${loopBars} bar${loopBars > 1 ? 's' : ''} of ${meter} (${formatTime(loopDurationSec)})`
     } else {
       loopLengthDisplay.textContent = 'Loop: --'
     }
@@ -151,11 +164,17 @@ function formatTime(seconds: number): string {
 }
 
 /**
- * Update playhead display
+ * Update playhead display with elapsed time and bar.beat position
  */
 function updatePlayheadDisplay(position: number): void {
   if (playheadDisplay) {
-    playheadDisplay.textContent = formatTime(position)
+    const { bar, beat } = getBarBeatPosition(
+      position,
+      getCurrentBpm(),
+      getCurrentTimeSignature(),
+      getCurrentTempoMap()
+    )
+    playheadDisplay.textContent = `${formatTime(position)} (${bar}.${beat})`
   }
 }
 
@@ -202,6 +221,7 @@ function onTransportStateChange(state: TransportState): void {
  */
 function onPlayheadUpdate(position: number): void {
   updatePlayheadDisplay(position)
+  updateBpmDisplay(Math.round(getTempoAtPlayhead(position)))
   updateVisualizerPlayhead(position)
 }
 
@@ -320,9 +340,13 @@ function updateDebugPanel(result: CompilationResult): void {
 function initializeScheduler(result: CompilationResult): void {
   const loopBars = result.globalSettings.loop ?? 0
   
+  const { timeSignature } = result.globalSettings
+
   initScheduler({
     events: result.events,
     bpm: result.bpm,
+    timeSignature,
+    tempoMap: result.tempoMap,
     loopBars: loopBars,
     loopEnabled: loopCheckbox?.checked ?? (loopBars > 0),
     onTransportStateChange,
@@ -333,7 +357,7 @@ function initializeScheduler(result: CompilationResult): void {
   updateBpmDisplay(result.bpm)
   
   // Update loop length display (10.1.3)
-  updateLoopLengthDisplay(loopBars, result.bpm)
+  updateLoopLengthDisplay(loopBars, result.bpm, timeSignature, result.tempoMap)
   
   // Set loop checkbox default based on program (9.3.4)
   if (loopCheckbox && loopBars > 0) {
@@ -9,6 +9,7 @@ import {
   clearError,
 } from '../app';
 import type { AppState, SafeCompilationResult } from '../app';
+import { createTempoMap } from '../../dsl/tempo';
 
 describe('UI App Error Handling', () => {
   describe('createInitialState', () => {
@@ -94,7 +95,9 @@ C4 1/4`;
           totalDuration: 1.0,
           eventCount: 2,
           events: [],
-          globalSettings: { swing: 0, loop: 1, grid: 16 },
+          globalSettings: { swing: 0, loop: 1, grid: 16, timeSignature: { numerator: 4, denominator: 4 } },
+          tempoMap: createTempoMap(120),
+          sections: [],
         },
         error: null,
       };
@@ -260,7 +263,9 @@ C4 1/4`;
         totalDuration: 1.0,
         eventCount: 2,
         events: [],
-        globalSettings: { swing: 0, loop: 1, grid: 16 },
+        globalSettings: { swing: 0, loop: 1, grid: 16, timeSignature: { numerator: 4, denominator: 4 } },
+        tempoMap: createTempoMap(120),
+        sections: [],
       };
 
       const state: AppState = {
@@ -5,6 +5,7 @@
  */
 
 import { getAnalyser } from '../audio/engine';
+import { getCycleEventTimes } from '../audio/scheduler';
 import type { SynthEvent } from '../dsl/compiler';
 
 /**
@@ -101,11 +102,14 @@ function getActiveTracksAtTime(time: number): string[] {
   for (const event of state.events) {
     if (event.kind !== 'note') continue;
     
-    const noteStart = event.t;
-    const noteEnd = event.t + event.dur;
+    const length = event.gate ?? event.dur; // Sounding part only
+    // Tracks with their own loop length repeat on their cycle, as the scheduler plays them
+    const starts = event.loop !== undefined
+      ? getCycleEventTimes(event, time - windowSize - length, time + windowSize)
+      : [event.t];
     
     // Check if note overlaps with current time window
-    if (noteStart <= time + windowSize && noteEnd >= time - windowSize) {
+    if (starts.some(start => start <= time + windowSize && start + length >= time - windowSize)) {
       activeTracks.add(event.track ?? 'default');
     }
   }